@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDiskUsage, getRetentionConfig, runGarbageCollection } from '@/lib/retention';
+
+export const dynamic = 'force-dynamic';
+
+// Requests must send ADMIN_TOKEN as a bearer token. Without a configured
+// token the admin API is closed: a sweep deletes files and the report shows
+// server paths.
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return false;
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({
+      config: getRetentionConfig(),
+      usage: getDiskUsage(),
+    });
+  } catch (error) {
+    console.error('Disk usage error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Runs a garbage collection sweep immediately instead of waiting for the timer
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(runGarbageCollection());
+  } catch (error) {
+    console.error('Garbage collection error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { clipJobs } from '@/lib/storage';
+import { parseClipJob } from '@/lib/validation';
 
 export async function GET(
   request: NextRequest,
@@ -13,5 +14,10 @@ export async function GET(
     return NextResponse.json({ error: 'Clip job not found' }, { status: 404 });
   }
 
-  return NextResponse.json(job);
+  try {
+    return NextResponse.json(parseClipJob(job));
+  } catch (error) {
+    console.error('Malformed clip job record:', error);
+    return NextResponse.json({ error: 'Clip job record is malformed' }, { status: 500 });
+  }
 }
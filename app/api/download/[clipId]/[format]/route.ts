@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import fs from 'fs';
+import { CLIPS_DIR } from '@/lib/paths';
+import { LANGUAGE_CODE_PATTERN } from '@/lib/languages';
+import { findProcessedClip } from '@/lib/clipPipeline';
+import { CaptionFileFormat } from '@/types';
+
+const CONTENT_TYPES: Record<CaptionFileFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  ass: 'text/x-ssa; charset=utf-8',
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { clipId: string; format: string } }
+) {
+  try {
+    const { clipId, format } = params;
+    // ?lang=es selects a translated caption track
+    const lang = request.nextUrl.searchParams.get('lang');
+
+    if (!Object.hasOwn(CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'Unsupported caption format' }, { status: 400 });
+    }
+
+    // Clip ids are UUIDs; anything else could escape the clips directory
+    if (!/^[\w-]+$/.test(clipId)) {
+      return NextResponse.json({ error: 'Invalid clip id' }, { status: 400 });
+    }
+
+    if (lang !== null && !LANGUAGE_CODE_PATTERN.test(lang)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+
+    if (lang !== null && !findProcessedClip(clipId)?.translations?.some(t => t.language === lang)) {
+      return NextResponse.json({ error: 'Captions not found in that language' }, { status: 404 });
+    }
+
+    const fileName = lang ? `${clipId}.${lang}.${format}` : `${clipId}.${format}`;
+    const captionPath = path.join(CLIPS_DIR, fileName);
+
+    if (!fs.existsSync(captionPath)) {
+      return NextResponse.json({ error: 'Captions not found' }, { status: 404 });
+    }
+
+    const captionBuffer = fs.readFileSync(captionPath);
+
+    return new NextResponse(captionBuffer, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format as CaptionFileFormat],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': captionBuffer.length.toString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('Caption download error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs';
-
-const CLIPS_DIR = path.join(process.cwd(), 'clips');
+import { CLIPS_DIR } from '@/lib/paths';
+import { LANGUAGE_CODE_PATTERN } from '@/lib/languages';
+import { findProcessedClip } from '@/lib/clipPipeline';
 
 export async function GET(
   request: NextRequest,
@@ -10,7 +11,28 @@ export async function GET(
 ) {
   try {
     const clipId = params.clipId;
-    const clipPath = path.join(CLIPS_DIR, `${clipId}.mp4`);
+    // ?lang=es selects the copy with translated captions burned in
+    const lang = request.nextUrl.searchParams.get('lang');
+
+    // Clip ids are UUIDs; anything else could escape the clips directory
+    if (!/^[\w-]+$/.test(clipId)) {
+      return NextResponse.json({ error: 'Invalid clip id' }, { status: 400 });
+    }
+
+    if (lang !== null && !LANGUAGE_CODE_PATTERN.test(lang)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+
+    // Only languages the clip was actually rendered in
+    if (lang !== null) {
+      const translation = findProcessedClip(clipId)?.translations?.find(t => t.language === lang);
+      if (!translation?.videoPath) {
+        return NextResponse.json({ error: 'Clip not found in that language' }, { status: 404 });
+      }
+    }
+
+    const fileName = lang ? `${clipId}.${lang}.mp4` : `${clipId}.mp4`;
+    const clipPath = path.join(CLIPS_DIR, fileName);
 
     if (!fs.existsSync(clipPath)) {
       return NextResponse.json({ error: 'Clip not found' }, { status: 404 });
@@ -21,7 +43,7 @@ export async function GET(
     return new NextResponse(videoBuffer, {
       headers: {
         'Content-Type': 'video/mp4',
-        'Content-Disposition': `attachment; filename="${clipId}.mp4"`,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
         'Content-Length': videoBuffer.length.toString(),
       },
     });
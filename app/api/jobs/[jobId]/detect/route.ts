@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobs } from '@/lib/storage';
+import { redetectMoments } from '@/lib/ingestPipeline';
+import { parseDetectionOptions, ValidationError } from '@/lib/validation';
+
+// Re-runs moment detection on a completed ingest job's stored transcript. The
+// body may carry new `detection` options; without them the job's stored
+// options are reused.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const jobId = params.jobId;
+
+  try {
+    const job = jobs.get(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'completed') {
+      return NextResponse.json(
+        { error: `Only completed jobs can be re-detected (job is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const detection = body?.detection === undefined ? undefined : parseDetectionOptions(body.detection);
+
+    const updated = await redetectMoments(jobId, detection, request.signal);
+    if (updated.status !== 'completed') {
+      return NextResponse.json({ error: 'Job changed while detecting moments' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      jobId,
+      moments: updated.result.moments,
+      detection: updated.result.detection,
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Re-detect error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobs, clipJobs } from '@/lib/storage';
+import { subscribeToJob, isTerminalStatus, JobEvent } from '@/lib/jobEvents';
+import { parseIngestJob, parseClipJob } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_INTERVAL = 15000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const jobId = params.jobId;
+
+  const ingestJob = jobs.get(jobId);
+  const clipJob = clipJobs.get(jobId);
+
+  if (!ingestJob && !clipJob) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  let job;
+  try {
+    job = ingestJob ? parseIngestJob(ingestJob) : parseClipJob(clipJob);
+  } catch (error) {
+    console.error('Malformed job record:', error);
+    return NextResponse.json({ error: 'Job record is malformed' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: JobEvent) => {
+        const data = event.type === 'progress' ? event.job : event.clip;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      };
+
+      // Current state first, so clients that connect late still see where the job is
+      send({ type: 'progress', job });
+
+      if (isTerminalStatus(job.status)) {
+        close();
+        return;
+      }
+
+      const unsubscribe = subscribeToJob(jobId, (event) => {
+        send(event);
+        if (event.type === 'progress' && isTerminalStatus(event.job.status)) {
+          close();
+        }
+      });
+
+      // Comment lines keep proxies from timing out idle connections
+      const keepAlive = setInterval(() => {
+        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, KEEP_ALIVE_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobs, clipJobs } from '@/lib/storage';
+import { startIngestJob } from '@/lib/ingestPipeline';
+import { startClipJob } from '@/lib/clipPipeline';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const jobId = params.jobId;
+
+  const ingestJob = jobs.get(jobId);
+  const clipJob = clipJobs.get(jobId);
+  const job = ingestJob || clipJob;
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  if (job.status !== 'interrupted') {
+    return NextResponse.json(
+      { error: `Only interrupted jobs can be resumed (job is ${job.status})` },
+      { status: 409 }
+    );
+  }
+
+  if (ingestJob) {
+    jobs.set(jobId, {
+      id: jobId,
+      status: 'processing',
+      progress: 0,
+      currentStep: 'Resuming',
+      input: ingestJob.input,
+      // Still the same job, so retention and ordering keep its original age
+      createdAt: ingestJob.createdAt,
+    });
+    startIngestJob(jobId, ingestJob.input);
+  } else if (clipJob) {
+    clipJobs.set(jobId, {
+      id: jobId,
+      status: 'processing',
+      progress: 0,
+      currentStep: 'Resuming',
+      totalClips: clipJob.totalClips,
+      processedClips: 0,
+      input: clipJob.input,
+      createdAt: clipJob.createdAt,
+    });
+    startClipJob(jobId, clipJob.input);
+  }
+
+  return NextResponse.json({
+    jobId,
+    message: 'Processing resumed',
+  });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobs, clipJobs } from '@/lib/storage';
+import { cancelJob } from '@/lib/cancellation';
+import { cancelIngestJob } from '@/lib/ingestPipeline';
+import { cancelClipJob } from '@/lib/clipPipeline';
+import { isTerminalStatus } from '@/lib/jobEvents';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const jobId = params.jobId;
+
+  const ingestJob = jobs.get(jobId);
+  const clipJob = clipJobs.get(jobId);
+  const job = ingestJob || clipJob;
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  // Interrupted jobs have nothing running but can still be cancelled
+  if (isTerminalStatus(job.status) && job.status !== 'interrupted') {
+    return NextResponse.json(
+      { error: `Job has already finished (job is ${job.status})` },
+      { status: 409 }
+    );
+  }
+
+  // A running pipeline marks itself cancelled and cleans up once its current
+  // step has been aborted; anything else is cleaned up here.
+  if (!cancelJob(jobId)) {
+    if (ingestJob) {
+      cancelIngestJob(jobId);
+    } else {
+      cancelClipJob(jobId);
+    }
+  }
+
+  return NextResponse.json({
+    jobId,
+    message: 'Cancellation requested',
+  }, { status: 202 });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { jobs } from '@/lib/storage';
+import { parseIngestJob } from '@/lib/validation';
 
 export async function GET(
   request: NextRequest,
@@ -13,5 +14,10 @@ export async function GET(
     return NextResponse.json({ error: 'Job not found' }, { status: 404 });
   }
 
-  return NextResponse.json(job);
+  try {
+    return NextResponse.json(parseIngestJob(job));
+  } catch (error) {
+    console.error('Malformed job record:', error);
+    return NextResponse.json({ error: 'Job record is malformed' }, { status: 500 });
+  }
 }
@@ -1,26 +1,43 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import axios from 'axios';
+import type { ViralMoment, MomentCopy, MomentSnap, ClipResult, IngestJob, ClipJob, CaptionMode, CaptionPresetName, SpeakerLabelMode, ReframeMode, ClipFormat, ClipLayout } from '@/types';
+import { CAPTION_PRESET_NAMES } from '@/lib/captionStyles';
+import { languageName } from '@/lib/languages';
+import { defaultLayout } from '@/lib/layouts';
 
-interface ViralMoment {
-  id: string;
-  start: number;
-  end: number;
-  score: number;
-  reason: string;
-  text: string;
-  emotions: string[];
-  keywords: string[];
+interface CopyDraft {
+  title: string;
+  description: string;
+  hashtags: string;
 }
 
-interface ProcessedClip {
-  id: string;
-  videoPath: string;
-  thumbnailPath: string;
-  duration: number;
-  moment: ViralMoment;
-  ready: boolean;
+function toCopyDraft(copy: MomentCopy | undefined): CopyDraft {
+  return {
+    title: copy?.title ?? '',
+    description: copy?.description ?? '',
+    hashtags: copy?.hashtags.map(tag => `#${tag}`).join(' ') ?? '',
+  };
+}
+
+// Must match the copy limits /api/process validates against
+const MAX_HASHTAGS = 15;
+
+// Applies the fields filled in on a draft over the suggested copy. Returns the
+// problem instead when the result still isn't complete copy.
+function mergeCopyDraft(draft: CopyDraft, copy: MomentCopy | undefined): MomentCopy | string {
+  const hashtags = draft.hashtags.split(/[\s,]+/).map(tag => tag.replace(/^#/, '')).filter(Boolean);
+  const merged = {
+    title: draft.title.trim() || copy?.title || '',
+    description: draft.description.trim() || copy?.description || '',
+    hashtags: hashtags.length > 0 ? hashtags : copy?.hashtags ?? [],
+  };
+
+  if (!merged.title) return 'Add a title to go with the edited copy';
+  if (!merged.description) return 'Add a description to go with the edited copy';
+  if (merged.hashtags.length > MAX_HASHTAGS) return `Use at most ${MAX_HASHTAGS} hashtags`;
+  return merged;
 }
 
 export default function Home() {
@@ -29,12 +46,103 @@ export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [jobId, setJobId] = useState<string | null>(null);
-  const [status, setStatus] = useState<any>(null);
+  const [status, setStatus] = useState<IngestJob | null>(null);
   const [moments, setMoments] = useState<ViralMoment[]>([]);
   const [selectedMoments, setSelectedMoments] = useState<string[]>([]);
   const [processingClips, setProcessingClips] = useState(false);
   const [clipJobId, setClipJobId] = useState<string | null>(null);
-  const [clips, setClips] = useState<ProcessedClip[]>([]);
+  const [clipStatus, setClipStatus] = useState<ClipJob | null>(null);
+  const [clips, setClips] = useState<ClipResult[]>([]);
+  const [captionMode, setCaptionMode] = useState<CaptionMode>('karaoke');
+  const [maxWordsPerLine, setMaxWordsPerLine] = useState(4);
+  const [captionPreset, setCaptionPreset] = useState<CaptionPresetName>('bold');
+  const [burnCaptions, setBurnCaptions] = useState(true);
+  const [speakerLabels, setSpeakerLabels] = useState<SpeakerLabelMode>('color');
+  const [captionLanguages, setCaptionLanguages] = useState('');
+  const [format, setFormat] = useState<ClipFormat>('9:16');
+  // Unset until the user picks one, so the format's default applies
+  const [layoutChoice, setLayoutChoice] = useState<ClipLayout | null>(null);
+  const layout = layoutChoice ?? defaultLayout(format);
+  const [backgroundColor, setBackgroundColor] = useState('#000000');
+  const [reframe, setReframe] = useState<ReframeMode>('auto');
+  // Title, description and hashtags as typed, keyed by moment id; hashtags stay
+  // a single string until the clips are requested
+  const [copyDrafts, setCopyDrafts] = useState<Record<string, CopyDraft>>({});
+  // Drafts that can't be sent, shown under their fields
+  const [copyErrors, setCopyErrors] = useState<Record<string, string>>({});
+
+  // Follow the ingest job over SSE while it runs; the stream closes itself once
+  // the job settles, and the effect cleanup closes it on unmount.
+  useEffect(() => {
+    if (!jobId || !loading) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      const jobStatus: IngestJob = JSON.parse((event as MessageEvent).data);
+      setStatus(jobStatus);
+
+      if (jobStatus.status === 'completed') {
+        setLoading(false);
+        setMoments(jobStatus.result.moments);
+      } else if (jobStatus.status === 'failed') {
+        setLoading(false);
+        alert(`Error: ${jobStatus.error}`);
+      } else if (jobStatus.status === 'interrupted' || jobStatus.status === 'cancelled') {
+        setLoading(false);
+      }
+    });
+
+    source.onerror = () => {
+      // The server closes the stream after the final event; only a drop while
+      // the job is still running is an error.
+      source.close();
+      setLoading(false);
+    };
+
+    return () => source.close();
+  }, [jobId, loading]);
+
+  useEffect(() => {
+    if (!clipJobId || !processingClips) return;
+
+    const source = new EventSource(`/api/jobs/${clipJobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      const job: ClipJob = JSON.parse((event as MessageEvent).data);
+      setClipStatus(job);
+
+      if (job.status === 'completed') {
+        setProcessingClips(false);
+        setClips(job.result);
+      } else if (job.status === 'failed') {
+        setProcessingClips(false);
+        alert(`Error: ${job.error}`);
+      } else if (job.status === 'interrupted' || job.status === 'cancelled') {
+        setProcessingClips(false);
+      } else if (job.clips) {
+        setClips(job.clips);
+      }
+    });
+
+    // Show each clip as soon as it is rendered instead of waiting for the batch
+    source.addEventListener('clip', (event) => {
+      const clip: ClipResult = JSON.parse((event as MessageEvent).data);
+      setClips(prev => prev.some(c => c.id === clip.id) ? prev : [...prev, clip]);
+    });
+
+    source.onerror = () => {
+      source.close();
+      setProcessingClips(false);
+    };
+
+    return () => source.close();
+  }, [clipJobId, processingClips]);
+
+  // Speaker options only matter when the transcript was diarized
+  const hasSpeakers = status?.status === 'completed' && status.result.segments.some(s => s.speaker);
+  const detectedLanguage = status?.status === 'completed' ? status.result.language : undefined;
+  const aiUsage = status?.status === 'completed' ? status.result.usage : undefined;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,6 +150,8 @@ export default function Home() {
     setJobId(null);
     setStatus(null);
     setMoments([]);
+    setCopyDrafts({});
+    setCopyErrors({});
     setSelectedMoments([]);
     setClips([]);
 
@@ -66,9 +176,6 @@ export default function Home() {
 
       const { jobId: newJobId } = response.data;
       setJobId(newJobId);
-
-      // Poll for status
-      pollStatus(newJobId);
     } catch (error) {
       console.error('Error:', error);
       alert('Error processing video');
@@ -76,26 +183,48 @@ export default function Home() {
     }
   };
 
-  const pollStatus = async (id: string) => {
-    const interval = setInterval(async () => {
-      try {
-        const response = await axios.get(`/api/status/${id}`);
-        const jobStatus = response.data;
-        setStatus(jobStatus);
+  const handleResume = async () => {
+    if (!jobId) return;
 
-        if (jobStatus.status === 'completed') {
-          clearInterval(interval);
-          setLoading(false);
-          setMoments(jobStatus.result.moments);
-        } else if (jobStatus.status === 'failed') {
-          clearInterval(interval);
-          setLoading(false);
-          alert(`Error: ${jobStatus.error}`);
-        }
-      } catch (error) {
-        console.error('Status check error:', error);
+    try {
+      await axios.post(`/api/jobs/${jobId}/resume`);
+      setLoading(true);
+    } catch (error) {
+      console.error('Resume error:', error);
+      alert('Error resuming job');
+    }
+  };
+
+  const handleResumeClips = async () => {
+    if (!clipJobId) return;
+
+    try {
+      await axios.post(`/api/jobs/${clipJobId}/resume`);
+      setClips([]);
+      setProcessingClips(true);
+    } catch (error) {
+      console.error('Resume error:', error);
+      alert('Error resuming clip job');
+    }
+  };
+
+  const handleCancel = async (kind: 'ingest' | 'clips') => {
+    const id = kind === 'ingest' ? jobId : clipJobId;
+    if (!id) return;
+
+    try {
+      await axios.delete(`/api/jobs/${id}`);
+      // Interrupted jobs have no open stream; reopening it delivers the final
+      // cancelled state. A stream that is already open just keeps going.
+      if (kind === 'ingest') {
+        setLoading(true);
+      } else {
+        setProcessingClips(true);
       }
-    }, 2000);
+    } catch (error) {
+      console.error('Cancel error:', error);
+      alert('Error cancelling job');
+    }
   };
 
   const handleMomentSelect = (momentId: string) => {
@@ -106,61 +235,77 @@ export default function Home() {
     );
   };
 
+  const handleCopyChange = (moment: ViralMoment, field: keyof CopyDraft, value: string) => {
+    setCopyDrafts(prev => ({
+      ...prev,
+      [moment.id]: { ...(prev[moment.id] ?? toCopyDraft(moment.copy)), [field]: value },
+    }));
+    setCopyErrors(({ [moment.id]: _, ...rest }) => rest);
+  };
+
   const handleProcessClips = async () => {
     if (selectedMoments.length === 0) {
       alert('Please select at least one moment');
       return;
     }
 
+    // Only edited copy is sent; the server keeps the suggestions for the rest
+    const copy: Record<string, MomentCopy> = {};
+    const errors: Record<string, string> = {};
+    for (const id of selectedMoments) {
+      const draft = copyDrafts[id];
+      if (!draft) continue;
+      const merged = mergeCopyDraft(draft, moments.find(m => m.id === id)?.copy);
+      if (typeof merged === 'string') {
+        errors[id] = merged;
+      } else {
+        copy[id] = merged;
+      }
+    }
+
+    setCopyErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     setProcessingClips(true);
     setClipJobId(null);
+    setClipStatus(null);
     setClips([]);
 
     try {
       const response = await axios.post('/api/process', {
         jobId,
         momentIds: selectedMoments,
+        copy,
         config: {
-          format: '9:16',
+          format,
+          layout: layoutChoice ?? undefined,
+          backgroundColor,
           addCaptions: true,
           addEmojis: true,
           addZoomPan: false, // Disabled by default as it's slow
+          captionMode,
+          maxWordsPerLine,
+          captionPreset,
+          burnCaptions,
+          speakerLabels,
+          reframe,
+          captionLanguages: captionLanguages
+            .split(/[\s,]+/)
+            .filter(Boolean),
         },
       });
 
       const { clipJobId: newClipJobId } = response.data;
       setClipJobId(newClipJobId);
-
-      // Poll for clip status
-      pollClipStatus(newClipJobId);
     } catch (error) {
       console.error('Error processing clips:', error);
-      alert('Error processing clips');
+      alert(axios.isAxiosError(error) && error.response?.data?.error
+        ? `Error: ${error.response.data.error}`
+        : 'Error processing clips');
       setProcessingClips(false);
     }
   };
 
-  const pollClipStatus = async (id: string) => {
-    const interval = setInterval(async () => {
-      try {
-        const response = await axios.get(`/api/clips/${id}`);
-        const clipStatus = response.data;
-
-        if (clipStatus.status === 'completed') {
-          clearInterval(interval);
-          setProcessingClips(false);
-          setClips(clipStatus.result);
-        } else if (clipStatus.status === 'failed') {
-          clearInterval(interval);
-          setProcessingClips(false);
-          alert(`Error: ${clipStatus.error}`);
-        }
-      } catch (error) {
-        console.error('Clip status check error:', error);
-      }
-    }, 3000);
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-black text-white">
       <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -240,7 +385,14 @@ export default function Home() {
           {status && (
             <div className="mt-6 p-4 bg-black/30 rounded-lg">
               <div className="flex justify-between items-center mb-2">
-                <span className="font-semibold">{status.currentStep}</span>
+                <span className="font-semibold">
+                  {status.currentStep}
+                  {status.queue && (
+                    <span className="ml-2 text-sm text-yellow-300">
+                      (#{status.queue.position} in {status.queue.stage} queue)
+                    </span>
+                  )}
+                </span>
                 <span className="text-sm">{status.progress}%</span>
               </div>
               <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
@@ -249,6 +401,24 @@ export default function Home() {
                   style={{ width: `${status.progress}%` }}
                 />
               </div>
+              <div className="flex gap-4">
+                {status.status === 'interrupted' && (
+                  <button
+                    onClick={handleResume}
+                    className="mt-4 py-2 px-6 bg-yellow-600 rounded-lg font-semibold hover:bg-yellow-500 transition-all"
+                  >
+                    ▶️ Resume Job
+                  </button>
+                )}
+                {['pending', 'processing', 'interrupted'].includes(status.status) && (
+                  <button
+                    onClick={() => handleCancel('ingest')}
+                    className="mt-4 py-2 px-6 bg-red-600 rounded-lg font-semibold hover:bg-red-500 transition-all"
+                  >
+                    ✖️ Cancel
+                  </button>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -257,6 +427,17 @@ export default function Home() {
         {moments.length > 0 && (
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 mb-8 shadow-2xl">
             <h2 className="text-3xl font-bold mb-6">🔥 Viral Moments Detected</h2>
+            {detectedLanguage && (
+              <p className="text-sm text-gray-400 -mt-4 mb-6">
+                Spoken language: {languageName(detectedLanguage)}
+              </p>
+            )}
+            {aiUsage && aiUsage.calls > 0 && (
+              <p className="text-sm text-gray-400 -mt-4 mb-6">
+                AI ranking: {aiUsage.calls} call{aiUsage.calls !== 1 ? 's' : ''},{' '}
+                {(aiUsage.promptTokens + aiUsage.completionTokens).toLocaleString()} tokens, ~${aiUsage.costUsd.toFixed(4)}
+              </p>
+            )}
             <div className="space-y-4">
               {moments.map((moment) => (
                 <div
@@ -274,12 +455,45 @@ export default function Home() {
                         <span className="text-2xl font-bold text-yellow-400">
                           {(moment.score * 10).toFixed(1)}/10
                         </span>
+                        {moment.scoreSource && (
+                          <span
+                            className="text-xs text-gray-400 uppercase tracking-wide"
+                            title={moment.scoreSource === 'model' && moment.heuristicScore !== undefined
+                              ? `Heuristic score ${(moment.heuristicScore * 10).toFixed(1)}/10`
+                              : undefined}
+                          >
+                            {moment.scoreSource === 'model' ? 'AI-ranked' : 'Heuristic'}
+                          </span>
+                        )}
                         <span className="text-sm text-gray-400">
                           {formatTime(moment.start)} - {formatTime(moment.end)} ({(moment.end - moment.start).toFixed(0)}s)
                         </span>
                       </div>
+                      {moment.copy && (
+                        <h3 className="text-xl font-semibold mb-2">{moment.copy.title}</h3>
+                      )}
+                      {moment.heuristicRange && (
+                        <p className="text-xs text-gray-400 mb-2">
+                          Tightened from {formatTime(moment.heuristicRange.start)} - {formatTime(moment.heuristicRange.end)}
+                        </p>
+                      )}
+                      {moment.snap && (
+                        <p className="text-xs text-gray-400 mb-2">
+                          Snapped to {formatSnapTargets(moment.snap)}:{' '}
+                          {formatPreciseTime(moment.start)} - {formatPreciseTime(moment.end)}
+                          {' '}(was {formatPreciseTime(moment.snap.original.start)} - {formatPreciseTime(moment.snap.original.end)})
+                        </p>
+                      )}
                       <p className="text-lg mb-3 leading-relaxed">{moment.text}</p>
                       <div className="flex flex-wrap gap-2">
+                        {moment.copy?.hashtags.map((tag) => (
+                          <span
+                            key={`#${tag}`}
+                            className="px-3 py-1 bg-green-500/30 rounded-full text-sm font-medium"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
                         {moment.emotions.map((emotion) => (
                           <span
                             key={emotion}
@@ -305,10 +519,166 @@ export default function Home() {
                     </div>
                   </div>
                   <p className="text-sm text-gray-400 italic">{moment.reason}</p>
+                  {selectedMoments.includes(moment.id) && (
+                    <div className="mt-4 space-y-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="text"
+                        value={(copyDrafts[moment.id] ?? toCopyDraft(moment.copy)).title}
+                        onChange={(e) => handleCopyChange(moment, 'title', e.target.value)}
+                        placeholder="Title"
+                        maxLength={100}
+                        className="w-full px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+                      />
+                      <textarea
+                        value={(copyDrafts[moment.id] ?? toCopyDraft(moment.copy)).description}
+                        onChange={(e) => handleCopyChange(moment, 'description', e.target.value)}
+                        placeholder="Description"
+                        rows={3}
+                        className="w-full px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+                      />
+                      <input
+                        type="text"
+                        value={(copyDrafts[moment.id] ?? toCopyDraft(moment.copy)).hashtags}
+                        onChange={(e) => handleCopyChange(moment, 'hashtags', e.target.value)}
+                        placeholder="#hashtags"
+                        className="w-full px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+                      />
+                      {copyErrors[moment.id] && (
+                        <p className="text-sm text-red-300">⚠️ {copyErrors[moment.id]}</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
 
+            <div className="mt-8 flex flex-wrap gap-6 items-center">
+              <label className="flex items-center gap-3">
+                <span className="text-sm text-gray-300">Captions</span>
+                <select
+                  value={captionMode}
+                  onChange={(e) => setCaptionMode(e.target.value as CaptionMode)}
+                  className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                >
+                  <option value="karaoke" className="text-black">Word highlight</option>
+                  <option value="static" className="text-black">Static</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-3">
+                <span className="text-sm text-gray-300">Style</span>
+                <select
+                  value={captionPreset}
+                  onChange={(e) => setCaptionPreset(e.target.value as CaptionPresetName)}
+                  className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white capitalize focus:outline-none focus:border-purple-500"
+                >
+                  {CAPTION_PRESET_NAMES.map((preset) => (
+                    <option key={preset} value={preset} className="text-black capitalize">
+                      {preset}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={burnCaptions}
+                  onChange={(e) => setBurnCaptions(e.target.checked)}
+                  className="w-5 h-5 accent-purple-500"
+                />
+                <span className="text-sm text-gray-300">Burn into video</span>
+              </label>
+              {hasSpeakers && (
+                <label className="flex items-center gap-3">
+                  <span className="text-sm text-gray-300">Speakers</span>
+                  <select
+                    value={speakerLabels}
+                    onChange={(e) => setSpeakerLabels(e.target.value as SpeakerLabelMode)}
+                    className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                  >
+                    <option value="color" className="text-black">Colour by speaker</option>
+                    <option value="prefix" className="text-black">Name prefix</option>
+                    <option value="none" className="text-black">Hide</option>
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-3">
+                <span className="text-sm text-gray-300">Format</span>
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ClipFormat)}
+                  className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                >
+                  <option value="9:16" className="text-black">9:16 vertical</option>
+                  <option value="4:5" className="text-black">4:5 portrait</option>
+                  <option value="1:1" className="text-black">1:1 square</option>
+                  <option value="16:9" className="text-black">16:9 horizontal</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-3">
+                <span className="text-sm text-gray-300">Layout</span>
+                <select
+                  value={layout}
+                  onChange={(e) => setLayoutChoice(e.target.value as ClipLayout)}
+                  className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                >
+                  <option value="crop" className="text-black">Crop to fill</option>
+                  <option value="fit-blur" className="text-black">Fit, blurred background</option>
+                  <option value="fit-color" className="text-black">Fit, coloured bars</option>
+                  <option value="stacked" className="text-black">Stacked with close-up</option>
+                </select>
+              </label>
+              {(layout === 'fit-color' || layout === 'stacked') && (
+                <label className="flex items-center gap-3">
+                  <span className="text-sm text-gray-300">Bar colour</span>
+                  <input
+                    type="color"
+                    value={backgroundColor}
+                    onChange={(e) => setBackgroundColor(e.target.value)}
+                    className="w-10 h-10 rounded bg-transparent"
+                  />
+                </label>
+              )}
+              {layout === 'crop' && (
+                <label className="flex items-center gap-3">
+                  <span className="text-sm text-gray-300">Framing</span>
+                  <select
+                    value={reframe}
+                    onChange={(e) => setReframe(e.target.value as ReframeMode)}
+                    className="px-4 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                  >
+                    <option value="auto" className="text-black">Auto</option>
+                    <option value="track" className="text-black">Follow subject</option>
+                    <option value="center" className="text-black">Centre crop</option>
+                    <option value="blur" className="text-black">Blurred background</option>
+                    <option value="split" className="text-black">Split screen</option>
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-3">
+                <span className="text-sm text-gray-300">Translate to</span>
+                <input
+                  type="text"
+                  value={captionLanguages}
+                  onChange={(e) => setCaptionLanguages(e.target.value)}
+                  placeholder="es, fr"
+                  className="w-32 px-3 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+                />
+              </label>
+              {captionMode === 'karaoke' && (
+                <label className="flex items-center gap-3">
+                  <span className="text-sm text-gray-300">Words per line</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={maxWordsPerLine}
+                    onChange={(e) => setMaxWordsPerLine(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    className="w-20 px-3 py-2 rounded-lg bg-white/20 border-2 border-white/30 text-white focus:outline-none focus:border-purple-500"
+                  />
+                </label>
+              )}
+            </div>
+
             <button
               onClick={handleProcessClips}
               disabled={processingClips || selectedMoments.length === 0}
@@ -318,6 +688,46 @@ export default function Home() {
                 ? '⚙️ Generating Clips...'
                 : `🎬 Generate ${selectedMoments.length} Clip${selectedMoments.length !== 1 ? 's' : ''}`}
             </button>
+
+            {clipStatus && clipStatus.status !== 'completed' && (
+              <div className="mt-6 p-4 bg-black/30 rounded-lg">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="font-semibold">
+                    {clipStatus.currentStep}
+                    {clipStatus.queue && (
+                      <span className="ml-2 text-sm text-yellow-300">
+                        (#{clipStatus.queue.position} in {clipStatus.queue.stage} queue)
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-sm">{clipStatus.processedClips}/{clipStatus.totalClips} clips</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+                  <div
+                    className="bg-gradient-to-r from-green-500 to-blue-500 h-full transition-all duration-500"
+                    style={{ width: `${clipStatus.progress}%` }}
+                  />
+                </div>
+                <div className="flex gap-4">
+                  {clipStatus.status === 'interrupted' && (
+                    <button
+                      onClick={handleResumeClips}
+                      className="mt-4 py-2 px-6 bg-yellow-600 rounded-lg font-semibold hover:bg-yellow-500 transition-all"
+                    >
+                      ▶️ Resume Clips
+                    </button>
+                  )}
+                  {['pending', 'processing', 'interrupted'].includes(clipStatus.status) && (
+                    <button
+                      onClick={() => handleCancel('clips')}
+                      className="mt-4 py-2 px-6 bg-red-600 rounded-lg font-semibold hover:bg-red-500 transition-all"
+                    >
+                      ✖️ Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -336,21 +746,86 @@ export default function Home() {
                       <span className="text-6xl">🎬</span>
                     </div>
                     <div className="mb-3">
-                      <div className="text-sm text-gray-400 mb-1">
-                        Duration: {clip.duration.toFixed(1)}s
-                      </div>
+                      {clip.ready && (
+                        <div className="text-sm text-gray-400 mb-1">
+                          Duration: {clip.duration.toFixed(1)}s
+                        </div>
+                      )}
                       <div className="text-sm text-gray-400 mb-1">
                         Score: {(clip.moment.score * 10).toFixed(1)}/10
                       </div>
+                      {clip.moment.copy && (
+                        <div className="font-semibold mb-1">{clip.moment.copy.title}</div>
+                      )}
                       <p className="text-sm line-clamp-2 text-gray-300">{clip.moment.text}</p>
+                      {clip.moment.copy && (
+                        <button
+                          onClick={() => navigator.clipboard.writeText(
+                            [clip.moment.copy!.description, clip.moment.copy!.hashtags.map(tag => `#${tag}`).join(' ')]
+                              .filter(Boolean)
+                              .join('\n\n')
+                          )}
+                          className="mt-2 text-sm text-purple-300 hover:text-purple-200"
+                        >
+                          📋 Copy caption and hashtags
+                        </button>
+                      )}
                     </div>
-                    <a
-                      href={`/api/download/${clip.id}`}
-                      download
-                      className="block w-full py-3 px-4 bg-gradient-to-r from-purple-600 to-pink-600 rounded-lg font-bold text-center hover:shadow-lg transition-all"
-                    >
-                      ⬇️ Download Clip
-                    </a>
+                    {clip.ready ? (
+                      <>
+                        <a
+                          href={`/api/download/${clip.id}`}
+                          download
+                          className="block w-full py-3 px-4 bg-gradient-to-r from-purple-600 to-pink-600 rounded-lg font-bold text-center hover:shadow-lg transition-all"
+                        >
+                          ⬇️ Download Clip
+                        </a>
+                        {clip.captionPaths && (
+                          <div className="flex gap-2 mt-2">
+                            {(['srt', 'vtt', 'ass'] as const).map((format) => (
+                              <a
+                                key={format}
+                                href={`/api/download/${clip.id}/${format}`}
+                                download
+                                className="flex-1 py-2 px-3 bg-white/10 rounded-lg text-sm font-semibold text-center uppercase hover:bg-white/20 transition-all"
+                              >
+                                {format}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {clip.translations?.map((translation) => (
+                          <div key={translation.language} className="flex gap-2 mt-2 items-center">
+                            <span className="flex-1 text-sm text-gray-300">
+                              {languageName(translation.language)}
+                            </span>
+                            {translation.videoPath && (
+                              <a
+                                href={`/api/download/${clip.id}?lang=${translation.language}`}
+                                download
+                                className="py-2 px-3 bg-white/10 rounded-lg text-sm font-semibold text-center hover:bg-white/20 transition-all"
+                              >
+                                MP4
+                              </a>
+                            )}
+                            {(['srt', 'vtt', 'ass'] as const).map((format) => (
+                              <a
+                                key={format}
+                                href={`/api/download/${clip.id}/${format}?lang=${translation.language}`}
+                                download
+                                className="py-2 px-3 bg-white/10 rounded-lg text-sm font-semibold text-center uppercase hover:bg-white/20 transition-all"
+                              >
+                                {format}
+                              </a>
+                            ))}
+                          </div>
+                        ))}
+                      </>
+                    ) : (
+                      <p className="py-3 px-4 bg-red-600/30 rounded-lg text-sm text-red-200">
+                        ⚠️ {clip.error}
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -377,3 +852,16 @@ function formatTime(seconds: number): string {
   const secs = Math.floor(seconds % 60);
   return `${mins}:${String(secs).padStart(2, '0')}`;
 }
+
+// Snapping moves boundaries by fractions of a second, so show tenths
+function formatPreciseTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const mins = Math.floor(tenths / 600);
+  const secs = ((tenths % 600) / 10).toFixed(1);
+  return `${mins}:${secs.padStart(4, '0')}`;
+}
+
+function formatSnapTargets(snap: MomentSnap): string {
+  const targets = Array.from(new Set([snap.start, snap.end].filter(target => target !== 'none')));
+  return targets.map(target => target === 'cut' ? 'camera cut' : 'sentence end').join(' and ');
+}
@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import { AIUsage } from '@/types';
+
+export interface AIClientOptions {
+  apiKey?: string;
+  // Set for OpenAI-compatible servers (llama.cpp, Ollama, vLLM, LM Studio)
+  baseURL?: string;
+}
+
+// One client per endpoint and key, created on first use so a missing key only
+// fails the features that need it
+const clients = new Map<string, OpenAI>();
+
+export function getAIClient(options: AIClientOptions = {}): OpenAI {
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  if (!apiKey && !options.baseURL) {
+    throw new Error('OPENAI_API_KEY is not set');
+  }
+
+  // Local servers usually ignore the key, but the SDK requires one
+  const key = `${options.baseURL || ''}|${apiKey || ''}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: options.baseURL });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// OpenAI list prices for the chat models this app defaults to or suggests
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+};
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  return MODEL_PRICES[model];
+}
+
+export const EMPTY_USAGE: AIUsage = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+
+export interface UsageTracker {
+  // `price` is omitted for models without a known price, e.g. local ones
+  record(usage: OpenAI.CompletionUsage | undefined, price?: ModelPrice): void;
+  summary(): AIUsage;
+}
+
+// Totals the model calls made for one job. Pass the job's earlier usage to
+// keep adding to it.
+export function createUsageTracker(initial: AIUsage = EMPTY_USAGE): UsageTracker {
+  const total = { ...initial };
+
+  return {
+    record: (usage, price) => {
+      total.calls += 1;
+      if (!usage) return;
+
+      total.promptTokens += usage.prompt_tokens;
+      total.completionTokens += usage.completion_tokens;
+      if (price) {
+        total.costUsd += (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+      }
+    },
+    summary: () => ({ ...total }),
+  };
+}
@@ -0,0 +1,143 @@
+import { AudioFeatures, TranscriptSegment } from '@/types';
+import { detectSilences, measureLoudness } from '@/lib/videoProcessor';
+
+// An energy spike is a second this many LU above the loudness of the seconds
+// before it, and at least SPIKE_JUMP_LU above the second right before, so a
+// sustained loud stretch counts once, where it starts
+const SPIKE_LU = 6;
+const SPIKE_JUMP_LU = 3;
+const SPIKE_LOOKBACK_SECONDS = 15;
+// Silences in this range inside a window read as dramatic pauses. Shorter
+// ones are ordinary breaths; longer ones are dead air.
+const PAUSE_MIN_SECONDS = 0.8;
+const PAUSE_MAX_SECONDS = 3;
+// A window this much louder than the whole recording sounds raised
+const RAISED_LU = 3;
+// Words per second relative to the recording's average
+const RAPID_SPEECH_RATIO = 1.25;
+
+export async function analyzeAudio(audioPath: string, signal?: AbortSignal): Promise<AudioFeatures> {
+  const { perSecond, integrated } = await measureLoudness(audioPath, signal);
+  const silences = await detectSilences(audioPath, -35, PAUSE_MIN_SECONDS, signal);
+  return { loudness: perSecond, integratedLoudness: integrated, silences };
+}
+
+// What the audio and pace of one window add to its text score
+export interface DeliverySignals {
+  // Sudden jumps in loudness
+  spikes: number;
+  // Spikes while nobody is speaking: laughter, applause, reactions
+  reactions: number;
+  // Mean loudness relative to the whole recording, in LU
+  loudnessDelta: number;
+  pauses: number;
+  // Words per second relative to the recording's average
+  speechRate: number;
+}
+
+// Measures the signals of segments[from..to], inclusive
+export type DeliveryScorer = (from: number, to: number) => DeliverySignals;
+
+function prefixSums(values: number[]): number[] {
+  const sums = [0];
+  values.forEach((value, i) => sums.push(sums[i] + value));
+  return sums;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function wordCount(segment: TranscriptSegment): number {
+  return segment.words?.length ?? segment.text.split(/\s+/).filter(Boolean).length;
+}
+
+// Precomputes per-second running totals so each window is measured in O(1).
+// Without audio features only the speech rate is measured.
+export function createDeliveryScorer(segments: TranscriptSegment[], audio?: AudioFeatures): DeliveryScorer {
+  const words = prefixSums(segments.map(wordCount));
+  const speaking = segments.reduce((total, s) => total + (s.end - s.start), 0);
+  const averageRate = speaking > 0 ? words[segments.length] / speaking : 0;
+
+  const seconds = audio?.loudness.length ?? 0;
+
+  // Seconds where someone is talking, from word timings when there are any
+  const speech = new Array<number>(seconds).fill(0);
+  for (const segment of segments) {
+    const spans = segment.words?.length ? segment.words : [segment];
+    for (const span of spans) {
+      for (let t = Math.floor(span.start); t < Math.ceil(span.end) && t < seconds; t++) speech[t] = 1;
+    }
+  }
+
+  const loudness = audio?.loudness ?? [];
+  const spikeFlags = loudness.map((value, t) => {
+    if (t === 0) return 0;
+    const before = loudness.slice(Math.max(0, t - SPIKE_LOOKBACK_SECONDS), t);
+    const spike = value >= median(before) + SPIKE_LU && value >= loudness[t - 1] + SPIKE_JUMP_LU;
+    return spike ? 1 : 0;
+  });
+
+  // Pauses are counted in the second they start
+  const pauseStarts = new Array<number>(seconds).fill(0);
+  for (const silence of audio?.silences ?? []) {
+    const length = silence.end - silence.start;
+    const second = Math.floor(silence.start);
+    if (length >= PAUSE_MIN_SECONDS && length <= PAUSE_MAX_SECONDS && second < seconds) pauseStarts[second] += 1;
+  }
+
+  const loudnessSums = prefixSums(loudness);
+  const spikeSums = prefixSums(spikeFlags);
+  const reactionSums = prefixSums(spikeFlags.map((spike, t) => spike && !speech[t] ? 1 : 0));
+  const pauseSums = prefixSums(pauseStarts);
+
+  return (from, to) => {
+    const duration = segments[to].end - segments[from].start;
+    const rate = duration > 0 ? (words[to + 1] - words[from]) / duration : 0;
+    const speechRate = averageRate > 0 ? rate / averageRate : 1;
+
+    // Seconds covered by the window, clamped to the measured audio
+    const first = Math.min(Math.floor(segments[from].start), seconds);
+    const last = Math.min(Math.ceil(segments[to].end), seconds);
+    if (!audio || last <= first) {
+      return { spikes: 0, reactions: 0, loudnessDelta: 0, pauses: 0, speechRate };
+    }
+
+    // A pause in the window's first or last second is its edge, not a pause in it
+    const pauses = last - first > 2 ? pauseSums[last - 1] - pauseSums[first + 1] : 0;
+
+    return {
+      spikes: spikeSums[last] - spikeSums[first],
+      reactions: reactionSums[last] - reactionSums[first],
+      loudnessDelta: (loudnessSums[last] - loudnessSums[first]) / (last - first) - audio.integratedLoudness,
+      pauses,
+      speechRate,
+    };
+  };
+}
+
+export function scoreDelivery(signals: DeliverySignals): number {
+  let score = 0;
+
+  score += Math.min(signals.spikes * 0.04, 0.12);
+  score += Math.min(signals.reactions * 0.08, 0.16);
+  if (signals.loudnessDelta >= RAISED_LU) score += Math.min(signals.loudnessDelta * 0.02, 0.1);
+  score += Math.min(signals.pauses * 0.05, 0.1);
+  if (signals.speechRate >= RAPID_SPEECH_RATIO) score += 0.05;
+
+  return score;
+}
+
+// The signals that added to the score, phrased for `reason`
+export function describeDelivery(signals: DeliverySignals): string[] {
+  const reasons: string[] = [];
+
+  if (signals.reactions > 0) reasons.push('Audience reaction');
+  if (signals.spikes > signals.reactions) reasons.push('Energy spikes');
+  if (signals.loudnessDelta >= RAISED_LU) reasons.push('Raised voices');
+  if (signals.pauses > 0) reasons.push('Dramatic pause');
+  if (signals.speechRate >= RAPID_SPEECH_RATIO) reasons.push('Rapid delivery');
+
+  return reasons;
+}
@@ -0,0 +1,74 @@
+import { DetectionOptions, SnapTarget, TranscriptSegment, ViralMoment } from '@/types';
+import { findSentenceEnds } from '@/lib/momentCandidates';
+import { isInMoment } from '@/lib/momentSegments';
+
+export type SnapSettings = Pick<DetectionOptions, 'snapTolerance' | 'minDuration' | 'maxDuration'>;
+
+function nearestWithin(times: number[], target: number, tolerance: number): number | undefined {
+  let best: number | undefined;
+  for (const time of times) {
+    const distance = Math.abs(time - target);
+    if (distance <= tolerance && (best === undefined || distance < Math.abs(best - target))) best = time;
+  }
+  return best;
+}
+
+// Cuts win over sentence boundaries. Moments are found on sentence boundaries
+// already, so the nearest one is usually where the boundary already is; a cut
+// within reach is what stops a clip opening on the last frame of a shot.
+function snapTime(
+  time: number,
+  cuts: number[],
+  sentences: number[],
+  tolerance: number
+): { time: number; target: SnapTarget } {
+  const cut = nearestWithin(cuts, time, tolerance);
+  if (cut !== undefined) return { time: cut, target: 'cut' };
+
+  const sentence = nearestWithin(sentences, time, tolerance);
+  if (sentence !== undefined && sentence !== time) return { time: sentence, target: 'sentence' };
+
+  return { time, target: 'none' };
+}
+
+// Moves each moment's start and end onto the nearest camera cut, or failing
+// that the nearest sentence boundary, within `snapTolerance` seconds. A moment
+// whose snapped length falls outside the duration limits keeps its range.
+export function snapMoments(
+  moments: ViralMoment[],
+  segments: TranscriptSegment[],
+  shotBoundaries: number[],
+  settings: SnapSettings
+): ViralMoment[] {
+  if (settings.snapTolerance <= 0 || segments.length === 0) return moments;
+
+  const sentenceEnds = findSentenceEnds(segments);
+  const starts = segments.filter((_, k) => k === 0 || sentenceEnds[k - 1]).map(s => s.start);
+  const ends = segments.filter((_, k) => sentenceEnds[k]).map(s => s.end);
+
+  return moments.map(moment => {
+    const start = snapTime(moment.start, shotBoundaries, starts, settings.snapTolerance);
+    const end = snapTime(moment.end, shotBoundaries, ends, settings.snapTolerance);
+    if (start.target === 'none' && end.target === 'none') return moment;
+
+    const duration = end.time - start.time;
+    if (duration < settings.minDuration || duration > settings.maxDuration) return moment;
+
+    const text = segments
+      .filter(s => isInMoment(s, { start: start.time, end: end.time }))
+      .map(s => s.text)
+      .join(' ');
+
+    return {
+      ...moment,
+      start: start.time,
+      end: end.time,
+      text,
+      snap: {
+        original: { start: moment.start, end: moment.end },
+        start: start.target,
+        end: end.target,
+      },
+    };
+  });
+}
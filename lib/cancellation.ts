@@ -0,0 +1,28 @@
+// Abort controllers for running pipelines, keyed by job id. Shared across hot
+// reloads so a cancel request reaches pipelines started before the reload.
+const globalForCancellation = globalThis as unknown as { jobControllers?: Map<string, AbortController> };
+
+if (!globalForCancellation.jobControllers) {
+  globalForCancellation.jobControllers = new Map();
+}
+
+const controllers = globalForCancellation.jobControllers;
+
+export function registerCancellableJob(jobId: string): AbortSignal {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+  return controller.signal;
+}
+
+export function releaseCancellableJob(jobId: string): void {
+  controllers.delete(jobId);
+}
+
+// Returns false when nothing is running for the job in this process
+export function cancelJob(jobId: string): boolean {
+  const controller = controllers.get(jobId);
+  if (!controller) return false;
+
+  controller.abort(new Error('Job cancelled'));
+  return true;
+}
@@ -0,0 +1,127 @@
+import { CaptionPresetName, CaptionStyle } from '@/types';
+
+export const CAPTION_PRESETS: Record<CaptionPresetName, CaptionStyle> = {
+  classic: {
+    fontName: 'Arial',
+    fontSize: 0.045,
+    outlineWidth: 0.004,
+    marginV: 0.08,
+    bold: true,
+    uppercase: false,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#FFFF00',
+    outlineColor: '#000000',
+    position: 'bottom',
+  },
+  bold: {
+    fontName: 'Impact',
+    fontSize: 0.06,
+    outlineWidth: 0.006,
+    marginV: 0.25,
+    bold: true,
+    uppercase: true,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#FFE500',
+    outlineColor: '#000000',
+    position: 'bottom',
+  },
+  boxed: {
+    fontName: 'Arial',
+    fontSize: 0.04,
+    outlineWidth: 0.008,
+    marginV: 0.1,
+    bold: true,
+    uppercase: false,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#00E5FF',
+    outlineColor: '#000000',
+    backgroundColor: '#000000',
+    backgroundOpacity: 0.7,
+    position: 'bottom',
+  },
+  minimal: {
+    fontName: 'Helvetica',
+    fontSize: 0.035,
+    outlineWidth: 0.002,
+    marginV: 0.06,
+    bold: false,
+    uppercase: false,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#FFD166',
+    outlineColor: '#000000',
+    position: 'bottom',
+  },
+  neon: {
+    fontName: 'Arial Black',
+    fontSize: 0.05,
+    outlineWidth: 0.005,
+    marginV: 0,
+    bold: true,
+    uppercase: true,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#00FFFF',
+    outlineColor: '#FF00FF',
+    position: 'middle',
+  },
+};
+
+export const CAPTION_PRESET_NAMES = Object.keys(CAPTION_PRESETS) as CaptionPresetName[];
+
+export function resolveCaptionStyle(
+  preset: CaptionPresetName = 'classic',
+  overrides: Partial<CaptionStyle> = {}
+): CaptionStyle {
+  return { ...CAPTION_PRESETS[preset], ...overrides };
+}
+
+// ASS colours are &HAABBGGRR, where alpha 00 is opaque
+export function toASSColor(hex: string, opacity: number = 1): string {
+  const rgb = hex.replace('#', '');
+  const alpha = Math.round((1 - Math.min(Math.max(opacity, 0), 1)) * 255);
+  const [r, g, b] = [rgb.slice(0, 2), rgb.slice(2, 4), rgb.slice(4, 6)];
+  return `&H${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase();
+}
+
+const ALIGNMENT = { bottom: 2, middle: 5, top: 8 };
+
+// One `Style:` line for the [V4+ Styles] section, in pixels of the output size
+export function toASSStyleLine(name: string, style: CaptionStyle, size: { width: number; height: number }): string {
+  const boxed = Boolean(style.backgroundColor);
+  const fontSize = Math.round(style.fontSize * size.height);
+  const outline = Math.max(0, Math.round(style.outlineWidth * size.height));
+  const marginH = Math.round(size.width * 0.05);
+  const marginV = Math.round(style.marginV * size.height);
+
+  // BorderStyle 3 draws an opaque box in the outline colour behind the text
+  const outlineColour = boxed
+    ? toASSColor(style.backgroundColor!, style.backgroundOpacity ?? 1)
+    : toASSColor(style.outlineColor);
+
+  return [
+    `Style: ${name}`,
+    style.fontName,
+    fontSize,
+    toASSColor(style.primaryColor),
+    toASSColor(style.highlightColor),
+    outlineColour,
+    '&H80000000',
+    style.bold ? -1 : 0,
+    0, 0, 0, 100, 100, 0, 0,
+    boxed ? 3 : 1,
+    outline,
+    boxed ? 0 : 1,
+    ALIGNMENT[style.position],
+    marginH,
+    marginH,
+    marginV,
+    1,
+  ].join(',');
+}
+
+// Caption colours for speaker-coloured captions, assigned in order of first
+// appearance. Chosen to stay legible on both outlined and boxed presets.
+export const SPEAKER_COLORS = ['#FFFFFF', '#FFE500', '#00E5FF', '#FF7AC6', '#7CFF6B', '#FFA24C'];
+
+export function getSpeakerColor(speakerIndex: number): string {
+  return SPEAKER_COLORS[speakerIndex % SPEAKER_COLORS.length];
+}
@@ -0,0 +1,246 @@
+import path from 'path';
+import fs from 'fs';
+import {
+  detectSilences,
+  extractAudioSegment,
+  getVideoDuration,
+  SilenceInterval
+} from '@/lib/videoProcessor';
+import { TranscriptionProvider } from '@/lib/transcriptionProviders';
+import { Transcript, TranscriptSegment } from '@/types';
+
+// 16 kHz mono 16-bit PCM, as written by extractAudioFromVideo
+const WAV_BYTES_PER_SECOND = 32000;
+
+export interface ChunkingConfig {
+  chunkSeconds: number;
+  overlapSeconds: number;
+  // How far before the target length to look for a silence to cut on
+  searchWindowSeconds: number;
+  concurrency: number;
+  maxRetries: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+function readPositive(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return value > 0 ? value : fallback;
+}
+
+export function getChunkingConfig(): ChunkingConfig {
+  const retries = parseInt(process.env.TRANSCRIPTION_MAX_RETRIES || '', 10);
+  const chunkSeconds = readPositive('TRANSCRIPTION_CHUNK_SECONDS', 600);
+  const overlapSeconds = readPositive('TRANSCRIPTION_CHUNK_OVERLAP_SECONDS', 2);
+
+  // Each chunk has to get past the overlap on both of its edges
+  if (overlapSeconds >= chunkSeconds / 2) {
+    throw new Error('TRANSCRIPTION_CHUNK_OVERLAP_SECONDS must be less than half of TRANSCRIPTION_CHUNK_SECONDS');
+  }
+
+  return {
+    chunkSeconds,
+    overlapSeconds,
+    searchWindowSeconds: readPositive('TRANSCRIPTION_CHUNK_SEARCH_SECONDS', 90),
+    concurrency: Math.floor(readPositive('TRANSCRIPTION_CHUNK_CONCURRENCY', 2)),
+    maxRetries: retries >= 0 ? retries : 2,
+  };
+}
+
+// Transcribes `audioPath` in one call when the provider accepts the whole file,
+// otherwise in overlapping chunks cut on silences and stitched back together.
+export async function transcribeInChunks(
+  provider: TranscriptionProvider,
+  audioPath: string,
+  config: ChunkingConfig,
+  signal?: AbortSignal
+): Promise<Transcript> {
+  const size = fs.statSync(audioPath).size;
+
+  if (!provider.maxFileBytes || size <= provider.maxFileBytes) {
+    return withRetries(() => provider.transcribe(audioPath, signal), config.maxRetries, signal);
+  }
+
+  // Leave headroom under the provider's limit for the WAV header and overlap
+  const maxChunkSeconds = Math.floor((provider.maxFileBytes * 0.9) / WAV_BYTES_PER_SECOND) - config.overlapSeconds;
+  const chunkSeconds = Math.min(config.chunkSeconds, maxChunkSeconds);
+
+  const duration = await getVideoDuration(audioPath, signal);
+  const silences = await detectSilences(audioPath, undefined, undefined, signal);
+  const chunks = planChunks(duration, silences, { ...config, chunkSeconds });
+
+  const base = path.join(path.dirname(audioPath), path.basename(audioPath, path.extname(audioPath)));
+
+  const transcripts = await mapWithConcurrency(chunks, config.concurrency, async (chunk) => {
+    const chunkPath = `${base}_chunk${chunk.index}.wav`;
+
+    try {
+      await extractAudioSegment(audioPath, chunkPath, chunk.start, chunk.end - chunk.start, signal);
+      const transcript = await withRetries(() => provider.transcribe(chunkPath, signal), config.maxRetries, signal);
+      return { ...transcript, segments: transcript.segments.map(segment => offsetSegment(segment, chunk.start)) };
+    } finally {
+      fs.rmSync(chunkPath, { force: true });
+    }
+  }, signal);
+
+  return {
+    segments: stitchChunks(chunks, transcripts.map(transcript => transcript.segments)),
+    language: mostCommonLanguage(transcripts),
+  };
+}
+
+// Chunks are detected independently, so a short chunk of music or silence
+// can come back in the wrong language; the majority wins
+function mostCommonLanguage(transcripts: Transcript[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const { language } of transcripts) {
+    if (language) counts.set(language, (counts.get(language) || 0) + 1);
+  }
+
+  let best: string | undefined;
+  counts.forEach((count, language) => {
+    if (!best || count > counts.get(best)!) best = language;
+  });
+  return best;
+}
+
+// Splits [0, duration] into chunks of at most `chunkSeconds`. Each chunk ends
+// in the middle of the latest silence inside the search window, or hard at the
+// limit when there is none, and the next one starts `overlapSeconds` earlier
+// so words at the seam are heard in full by one side. When the chunks are too
+// short to overlap, the next one starts at the cut instead.
+export function planChunks(
+  duration: number,
+  silences: SilenceInterval[],
+  config: Pick<ChunkingConfig, 'chunkSeconds' | 'overlapSeconds' | 'searchWindowSeconds'>
+): AudioChunk[] {
+  if (!(config.chunkSeconds > 0)) throw new Error('Chunks must be longer than 0 seconds');
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < duration) {
+    const limit = start + config.chunkSeconds;
+
+    if (limit >= duration) {
+      chunks.push({ index: chunks.length, start, end: duration });
+      break;
+    }
+
+    const windowStart = Math.max(start + config.overlapSeconds * 2, limit - config.searchWindowSeconds);
+    const cut = silences
+      .map(silence => (silence.start + silence.end) / 2)
+      .filter(midpoint => midpoint >= windowStart && midpoint <= limit)
+      .pop() ?? limit;
+
+    chunks.push({ index: chunks.length, start, end: cut });
+    start = cut - config.overlapSeconds > start ? cut - config.overlapSeconds : cut;
+  }
+
+  return chunks;
+}
+
+// Each overlap belongs to the chunk on either side up to its midpoint. A
+// segment is kept by the chunk its midpoint falls in, and a segment repeating
+// the text of the one before it across the seam is dropped.
+export function stitchChunks(chunks: AudioChunk[], transcripts: TranscriptSegment[][]): TranscriptSegment[] {
+  const stitched: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const from = i > 0 ? (chunks[i - 1].end + chunk.start) / 2 : -Infinity;
+    const to = i < chunks.length - 1 ? (chunk.end + chunks[i + 1].start) / 2 : Infinity;
+
+    for (const segment of transcripts[i]) {
+      const midpoint = (segment.start + segment.end) / 2;
+      if (midpoint < from || midpoint >= to) continue;
+
+      const previous = stitched[stitched.length - 1];
+      if (previous && segment.start < previous.end && normalize(previous.text) === normalize(segment.text)) {
+        continue;
+      }
+
+      stitched.push(segment);
+    }
+  });
+
+  return stitched;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[.,!?;:"'()\-]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function offsetSegment(segment: TranscriptSegment, offset: number): TranscriptSegment {
+  return {
+    ...segment,
+    start: segment.start + offset,
+    end: segment.end + offset,
+    words: segment.words?.map(word => ({
+      ...word,
+      start: word.start + offset,
+      end: word.end + offset,
+    })),
+  };
+}
+
+// Retries transient failures with exponential backoff (1s, 2s, 4s, ...).
+// Cancellation is never retried.
+async function withRetries<T>(task: () => Promise<T>, maxRetries: number, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxRetries) throw error;
+
+      console.warn(`Transcription attempt ${attempt + 1} failed, retrying:`, error);
+      await sleep(1000 * 2 ** attempt, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs `task` over `items` with at most `limit` in flight, keeping input order.
+// Stops handing out new items once one fails or the signal aborts.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      signal?.throwIfAborted();
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
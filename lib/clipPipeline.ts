@@ -0,0 +1,334 @@
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import { jobs, clipJobs } from '@/lib/storage';
+import {
+  buildLayoutGraph,
+  writeCaptionSidecars,
+  generateThumbnail,
+  ensureDirectoryExists,
+  removeFilesWithPrefix,
+  CaptionOptions
+} from '@/lib/videoProcessor';
+import { CLIPS_DIR } from '@/lib/paths';
+import { publishJobEvent } from '@/lib/jobEvents';
+import { runQueued } from '@/lib/queue';
+import { registerCancellableJob, releaseCancellableJob } from '@/lib/cancellation';
+import { startRetentionSweeper } from '@/lib/retention';
+import { resolveCaptionStyle } from '@/lib/captionStyles';
+import { translateSegments } from '@/lib/translation';
+import { normalizeLanguage } from '@/lib/languages';
+import { createUsageTracker, UsageTracker } from '@/lib/aiClient';
+import { defaultLayout } from '@/lib/layouts';
+import { planReframe } from '@/lib/reframe';
+import { isInMoment } from '@/lib/momentSegments';
+import { renderClipVideo, RenderSpec } from '@/lib/renderGraph';
+import { FFmpegProgress } from '@/lib/ffmpeg';
+import {
+  ClipJobInput,
+  ClipOptions,
+  ClipResult,
+  ClipTranslation,
+  ProcessedClip,
+  TranscriptSegment,
+  ViralMoment
+} from '@/types';
+
+// Zoom per second of the optional slow zoom-in
+const ZOOM_PAN_RATE = 0.05;
+
+ensureDirectoryExists(CLIPS_DIR);
+startRetentionSweeper();
+
+// Runs clip rendering in the background and records failures on the job.
+// Also used to resume jobs that were interrupted by a restart.
+export function startClipJob(clipJobId: string, input: ClipJobInput): void {
+  const ingestJob = jobs.get(input.ingestJobId);
+
+  if (!ingestJob || ingestJob.status !== 'completed') {
+    failClipJob(clipJobId, 'Source job is missing or incomplete');
+    return;
+  }
+
+  const { videoPath, segments, moments, language } = ingestJob.result;
+  const selectedMoments = moments.filter(m => input.momentIds.includes(m.id));
+
+  const signal = registerCancellableJob(clipJobId);
+
+  processClips(clipJobId, videoPath, segments, selectedMoments, input.config, language, signal)
+    .catch(err => {
+      if (signal.aborted) {
+        cancelClipJob(clipJobId);
+        return;
+      }
+
+      console.error('Clip processing error:', err);
+      failClipJob(clipJobId, err.message);
+    })
+    .finally(() => releaseCancellableJob(clipJobId));
+}
+
+// The rendered clip with this id, from whichever job made it
+export function findProcessedClip(clipId: string): ProcessedClip | undefined {
+  for (const job of clipJobs.list()) {
+    const clips = job.status === 'completed' ? job.result : job.clips || [];
+    const clip = clips.find(c => c.id === clipId);
+    if (clip) return clip.ready ? clip : undefined;
+  }
+  return undefined;
+}
+
+// Marks the job cancelled and deletes the clips it had already rendered.
+// Clips still rendering clean up after themselves in renderClip.
+export function cancelClipJob(clipJobId: string): void {
+  const job = clipJobs.get(clipJobId);
+  if (!job) return;
+
+  for (const clip of job.clips || []) {
+    removeFilesWithPrefix(CLIPS_DIR, clip.id);
+  }
+
+  clipJobs.set(clipJobId, { ...job, status: 'cancelled', currentStep: 'Cancelled', queue: undefined });
+}
+
+function failClipJob(clipJobId: string, error: string) {
+  const job = clipJobs.get(clipJobId);
+  if (job) {
+    clipJobs.set(clipJobId, { ...job, status: 'failed', error });
+  }
+}
+
+async function processClips(
+  clipJobId: string,
+  videoPath: string,
+  segments: TranscriptSegment[],
+  moments: ViralMoment[],
+  config: ClipOptions,
+  language: string | undefined,
+  signal: AbortSignal
+) {
+  // `finished` is in completion order for progress events; `results` keeps the
+  // order the moments were selected in.
+  const finished: ClipResult[] = [];
+  const results: ClipResult[] = new Array(moments.length);
+  const usage = createUsageTracker();
+
+  // Share of each clip still rendering, so progress moves during encodes
+  const rendering = new Map<number, number>();
+  let reported = 0;
+  const overallProgress = () => {
+    let done = finished.length;
+    rendering.forEach(share => (done += share));
+    reported = Math.max(reported, Math.floor((done / moments.length) * 100));
+    return reported;
+  };
+  const onClipProgress = (i: number) => (share: number) => {
+    rendering.set(i, share);
+    const before = reported;
+    if (overallProgress() > before) clipJobs.update(clipJobId, { progress: reported });
+  };
+
+  clipJobs.update(clipJobId, {
+    currentStep: `Rendering ${moments.length} clip${moments.length !== 1 ? 's' : ''}`,
+  });
+
+  // Clips encode in parallel, bounded by the encode stage's concurrency
+  await Promise.all(moments.map((moment, i) =>
+    runQueued(
+      'encode',
+      clipJobId,
+      () => renderClip(videoPath, segments, moment, config, language, usage, onClipProgress(i), signal),
+      {
+        signal,
+        onQueueChange: (queue) => clipJobs.update(clipJobId, { queue }),
+      }
+    )
+      .catch((error): ClipResult => {
+        // A cancelled batch fails as a whole rather than clip by clip
+        if (signal.aborted) throw error;
+
+        console.error(`Error processing clip ${i + 1}:`, error);
+        return {
+          id: uuidv4(),
+          error: error instanceof Error ? error.message : 'Unknown error',
+          moment,
+          ready: false,
+        };
+      })
+      .then((clip) => {
+        results[i] = clip;
+        finished.push(clip);
+        rendering.delete(i);
+
+        clipJobs.update(clipJobId, {
+          progress: overallProgress(),
+          currentStep: `Rendered clip ${finished.length}/${moments.length}`,
+          processedClips: finished.length,
+          clips: [...finished],
+          usage: usage.summary(),
+        });
+        publishJobEvent(clipJobId, { type: 'clip', clip });
+      })
+  ));
+
+  signal.throwIfAborted();
+
+  const job = clipJobs.get(clipJobId);
+  if (!job) return;
+
+  clipJobs.set(clipJobId, {
+    ...job,
+    status: 'completed',
+    progress: 100,
+    currentStep: 'Complete',
+    processedClips: moments.length,
+    totalClips: moments.length,
+    result: results,
+    usage: usage.summary(),
+  });
+}
+
+async function renderClip(
+  videoPath: string,
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  config: ClipOptions,
+  language: string | undefined,
+  usage: UsageTracker,
+  onProgress: (share: number) => void,
+  signal: AbortSignal
+): Promise<ProcessedClip> {
+  const clipId = uuidv4();
+
+  try {
+    return await renderClipFiles(clipId, videoPath, segments, moment, config, language, usage, onProgress, signal);
+  } catch (error) {
+    // Drop whatever intermediate files the failed or cancelled render left behind
+    removeFilesWithPrefix(CLIPS_DIR, clipId);
+    throw error;
+  }
+}
+
+async function renderClipFiles(
+  clipId: string,
+  videoPath: string,
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  config: ClipOptions,
+  sourceLanguage: string | undefined,
+  usage: UsageTracker,
+  onProgress: (share: number) => void,
+  signal: AbortSignal
+): Promise<ProcessedClip> {
+  const format = config.format || '9:16';
+  const addCaptions = config.addCaptions !== false;
+  const addEmojis = config.addEmojis !== false;
+  const burnCaptions = config.burnCaptions !== false;
+
+  const captionOptions: CaptionOptions = {
+    mode: config.captionMode,
+    maxWordsPerLine: config.maxWordsPerLine,
+    addEmojis,
+    style: resolveCaptionStyle(config.captionPreset, config.captionStyle),
+    format,
+    speakerLabels: config.speakerLabels,
+  };
+
+  // Step 1: Decide how the source fills the format. A cropped clip follows
+  // the subject when the source is wider than the format.
+  const layout = config.layout || defaultLayout(format);
+  const framing = layout === 'crop'
+    ? await planReframe(clipId, videoPath, moment, format, config.reframe || 'auto', segments, signal)
+    : undefined;
+  const frameGraph = framing?.filterGraph || buildLayoutGraph(layout, format, config.backgroundColor);
+  // Blurred framing, requested or picked by 'auto', renders the fit-blur layout
+  const renderedLayout = framing?.mode === 'blur' ? 'fit-blur' : layout;
+
+  // Step 2: Write caption files, in the source language and each translation
+  let captionPaths: ProcessedClip['captionPaths'];
+  const translations: ClipTranslation[] = [];
+
+  if (addCaptions) {
+    captionPaths = writeCaptionSidecars(path.join(CLIPS_DIR, clipId), segments, moment, captionOptions);
+
+    for (const language of config.captionLanguages || []) {
+      // 'en-US' captions of an English transcript need no translation
+      if (normalizeLanguage(language) === normalizeLanguage(sourceLanguage)) continue;
+
+      const translated = await translateClipSegments(segments, moment, sourceLanguage, language, usage, signal);
+      translations.push({
+        language,
+        captionPaths: writeCaptionSidecars(path.join(CLIPS_DIR, `${clipId}.${language}`), translated, moment, captionOptions),
+      });
+    }
+  }
+
+  // Step 3: Render each language straight from the source in one encode
+  const render: Omit<RenderSpec, 'outputPath' | 'subtitlePath'> = {
+    videoPath,
+    start: moment.start,
+    end: moment.end,
+    format,
+    frameGraph,
+    zoomPan: config.addZoomPan !== false ? ZOOM_PAN_RATE : undefined,
+  };
+
+  const renders = burnCaptions ? 1 + translations.length : 1;
+  const renderProgress = (index: number) => ({ percent }: FFmpegProgress) => {
+    if (percent !== undefined) onProgress((index + percent / 100) / renders);
+  };
+
+  const finalClipPath = path.join(CLIPS_DIR, `${clipId}.mp4`);
+  await renderClipVideo(
+    { ...render, outputPath: finalClipPath, subtitlePath: burnCaptions ? captionPaths?.ass : undefined },
+    signal,
+    renderProgress(0)
+  );
+
+  if (burnCaptions) {
+    for (let i = 0; i < translations.length; i++) {
+      const translation = translations[i];
+      translation.videoPath = path.join(CLIPS_DIR, `${clipId}.${translation.language}.mp4`);
+      await renderClipVideo(
+        { ...render, outputPath: translation.videoPath, subtitlePath: translation.captionPaths.ass },
+        signal,
+        renderProgress(i + 1)
+      );
+    }
+  }
+
+  // Generate thumbnail
+  const thumbnailPath = path.join(CLIPS_DIR, `${clipId}_thumb.jpg`);
+  await generateThumbnail(finalClipPath, thumbnailPath, 1, signal);
+
+  return {
+    id: clipId,
+    videoPath: finalClipPath,
+    thumbnailPath,
+    duration: moment.end - moment.start,
+    moment,
+    ready: true,
+    captionPaths,
+    translations: translations.length > 0 ? translations : undefined,
+    layout: renderedLayout,
+    reframe: framing?.mode,
+  };
+}
+
+// Translates the captions inside the moment. The rest of the transcript is
+// passed through untouched so speakers keep the colours they get elsewhere.
+async function translateClipSegments(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  sourceLanguage: string | undefined,
+  targetLanguage: string,
+  usage: UsageTracker,
+  signal: AbortSignal
+): Promise<TranscriptSegment[]> {
+  const inMoment = segments.filter(s => isInMoment(s, moment));
+  const translated = await translateSegments(inMoment, sourceLanguage, targetLanguage, signal, usage);
+
+  return segments.map(segment => {
+    const index = inMoment.indexOf(segment);
+    return index === -1 ? segment : translated[index];
+  });
+}
@@ -0,0 +1,144 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs';
+import { SpeakerChangePreference, TranscriptSegment, TranscriptWord } from '@/types';
+
+const execFileAsync = promisify(execFile);
+
+export interface DiarizationConfig {
+  // Executable called as `<command> <audio.wav> <output.rttm>`; diarization is
+  // skipped when unset
+  command?: string;
+  speakerChanges: SpeakerChangePreference;
+}
+
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+export function getDiarizationConfig(): DiarizationConfig {
+  const speakerChanges = process.env.DIARIZATION_SPEAKER_CHANGES;
+
+  return {
+    command: process.env.DIARIZATION_COMMAND || undefined,
+    speakerChanges: speakerChanges === 'prefer' || speakerChanges === 'avoid' ? speakerChanges : 'neutral',
+  };
+}
+
+// Labels each segment with its speaker. Segments with word timings are split
+// where the speaker changes mid-segment.
+export async function diarizeSegments(
+  audioPath: string,
+  segments: TranscriptSegment[],
+  config: DiarizationConfig,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> {
+  if (!config.command) return segments;
+
+  const rttmPath = path.join(path.dirname(audioPath), `${path.basename(audioPath, path.extname(audioPath))}.rttm`);
+
+  try {
+    await execFileAsync(config.command, [audioPath, rttmPath], { signal, maxBuffer: 16 * 1024 * 1024 });
+    const turns = parseRTTM(fs.readFileSync(rttmPath, 'utf-8'));
+    return assignSpeakers(segments, turns);
+  } finally {
+    fs.rmSync(rttmPath, { force: true });
+  }
+}
+
+// RTTM lines look like `SPEAKER file 1 <start> <duration> <NA> <NA> <label> <NA> <NA>`.
+// Labels are renamed "Speaker 1", "Speaker 2", ... in order of first turn.
+export function parseRTTM(content: string): SpeakerTurn[] {
+  const names = new Map<string, string>();
+  const turns: SpeakerTurn[] = [];
+
+  const lines = content.split('\n').map(line => line.trim().split(/\s+/));
+  const rows = lines
+    .filter(fields => fields[0] === 'SPEAKER' && fields.length >= 8)
+    .map(fields => ({ start: parseFloat(fields[3]), duration: parseFloat(fields[4]), label: fields[7] }))
+    .filter(row => Number.isFinite(row.start) && Number.isFinite(row.duration))
+    .sort((a, b) => a.start - b.start);
+
+  for (const row of rows) {
+    if (!names.has(row.label)) names.set(row.label, `Speaker ${names.size + 1}`);
+    turns.push({ speaker: names.get(row.label)!, start: row.start, end: row.start + row.duration });
+  }
+
+  return turns;
+}
+
+export function assignSpeakers(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  if (turns.length === 0) return segments;
+
+  return segments.flatMap(segment => {
+    if (!segment.words || segment.words.length === 0) {
+      const speaker = speakerAt(turns, segment.start, segment.end);
+      return [speaker ? { ...segment, speaker } : segment];
+    }
+
+    // Group consecutive words by the speaker talking at each word
+    const groups: { speaker?: string; words: TranscriptWord[] }[] = [];
+    for (const word of segment.words) {
+      const speaker = speakerAt(turns, word.start, word.end);
+      const last = groups[groups.length - 1];
+      if (last && last.speaker === speaker) {
+        last.words.push(word);
+      } else {
+        groups.push({ speaker, words: [word] });
+      }
+    }
+
+    if (groups.length === 1) {
+      return [groups[0].speaker ? { ...segment, speaker: groups[0].speaker } : segment];
+    }
+
+    return groups.map(group => ({
+      ...segment,
+      text: group.words.map(word => word.text).join(' '),
+      start: group.words[0].start,
+      end: group.words[group.words.length - 1].end,
+      words: group.words,
+      speaker: group.speaker,
+    }));
+  });
+}
+
+// The speaker whose turns overlap [start, end] the most
+function speakerAt(turns: SpeakerTurn[], start: number, end: number): string | undefined {
+  // Zero-length word timings still need to land in a turn
+  end = Math.max(end, start + 0.01);
+  const overlap = new Map<string, number>();
+
+  for (const turn of turns) {
+    if (turn.start >= end) break;
+    const shared = Math.min(end, turn.end) - Math.max(start, turn.start);
+    if (shared > 0) overlap.set(turn.speaker, (overlap.get(turn.speaker) || 0) + shared);
+  }
+
+  let best: string | undefined;
+  let bestOverlap = 0;
+  overlap.forEach((shared, speaker) => {
+    if (shared > bestOverlap) {
+      best = speaker;
+      bestOverlap = shared;
+    }
+  });
+  return best;
+}
+
+// Number of times the speaker changes between consecutive labelled segments
+export function countSpeakerChanges(segments: TranscriptSegment[]): number {
+  let changes = 0;
+  let previous: string | undefined;
+
+  for (const segment of segments) {
+    if (!segment.speaker) continue;
+    if (previous && segment.speaker !== previous) changes++;
+    previous = segment.speaker;
+  }
+
+  return changes;
+}
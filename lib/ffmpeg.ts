@@ -0,0 +1,139 @@
+import { spawn } from 'child_process';
+
+// How much of stderr a failure keeps for its message and for debugging
+const STDERR_TAIL_LINES = 20;
+
+export class FFmpegError extends Error {
+  constructor(
+    readonly command: string,
+    readonly args: string[],
+    readonly exitCode: number | null,
+    readonly stderrTail: string
+  ) {
+    // ffmpeg's last line usually names the problem
+    const lastLine = stderrTail.trim().split('\n').pop() || 'no output';
+    super(`${command} exited with ${exitCode === null ? 'a signal' : `code ${exitCode}`}: ${lastLine}`);
+    this.name = 'FFmpegError';
+  }
+}
+
+export interface FFmpegProgress {
+  // Seconds of output written so far
+  time: number;
+  // 0..100, when the total duration is known
+  percent?: number;
+  // Encoding speed as a multiple of real time
+  speed?: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  // Seconds of output expected, for percentages. Without it the input's
+  // `Duration:` from stderr is used, which is only right for whole-file runs.
+  duration?: number;
+  onProgress?: (progress: FFmpegProgress) => void;
+  // Keep all of stderr, for filters that report their findings there
+  captureStderr?: boolean;
+}
+
+export interface RunResult {
+  stdout: string;
+  // All of stderr with `captureStderr`, otherwise only its tail
+  stderr: string;
+}
+
+// Escapes a filter option value. It is parsed twice: once by the option
+// parser, which splits on ':', and once by the graph parser, which splits on
+// ',', ';' and brackets.
+export function escapeFilterValue(value: string): string {
+  const option = value.replace(/[\\':]/g, '\\$&');
+  return option.replace(/[\\'[\],;]/g, '\\$&');
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes, seconds] = value.split(':').map(parseFloat);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Collects complete lines from a stream of chunks
+function lineReader(onLine: (line: string) => void): (chunk: Buffer) => void {
+  let pending = '';
+  return (chunk) => {
+    const lines = (pending + chunk.toString()).split(/\r?\n|\r/);
+    pending = lines.pop() ?? '';
+    lines.forEach(onLine);
+  };
+}
+
+function run(command: string, args: string[], options: RunOptions): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal: options.signal });
+
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    let duration = options.duration;
+    let time = 0;
+    let speed: number | undefined;
+
+    // With -progress, stdout is `key=value` blocks, each closed by `progress=`
+    const onStdoutLine = (line: string) => {
+      if (!options.onProgress) {
+        stdout.push(line);
+        return;
+      }
+
+      const [key, value = ''] = line.split('=');
+      if (key === 'out_time_us') {
+        const microseconds = parseInt(value, 10);
+        if (!isNaN(microseconds)) time = Math.max(0, microseconds / 1_000_000);
+      } else if (key === 'speed') {
+        const multiple = parseFloat(value);
+        speed = isNaN(multiple) ? undefined : multiple;
+      } else if (key === 'progress') {
+        const done = value === 'end';
+        const percent = duration ? Math.min(100, done ? 100 : (time / duration) * 100) : undefined;
+        options.onProgress({ time, percent, speed });
+      }
+    };
+
+    const onStderrLine = (line: string) => {
+      if (duration === undefined) {
+        const match = line.match(/^\s*Duration: (\d+:\d+:[\d.]+)/);
+        if (match) duration = parseClock(match[1]);
+      }
+
+      stderr.push(line);
+      if (!options.captureStderr && stderr.length > STDERR_TAIL_LINES) stderr.shift();
+    };
+
+    child.stdout.on('data', lineReader(onStdoutLine));
+    child.stderr.on('data', lineReader(onStderrLine));
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${command} is not installed or not on PATH`));
+      } else {
+        reject(error);
+      }
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve({ stdout: stdout.join('\n'), stderr: stderr.join('\n') });
+      } else if (!options.signal?.aborted) {
+        reject(new FFmpegError(command, args, code, stderr.slice(-STDERR_TAIL_LINES).join('\n')));
+      }
+    });
+  });
+}
+
+// Runs ffmpeg with an argument list, never through a shell, so paths need no
+// quoting. Output is streamed rather than buffered, however verbose it gets.
+export function runFFmpeg(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const progress = options.onProgress ? ['-progress', 'pipe:1', '-nostats'] : [];
+  return run('ffmpeg', ['-hide_banner', ...progress, ...args], options);
+}
+
+export function runFFprobe(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return run('ffprobe', ['-hide_banner', ...args], options);
+}
@@ -0,0 +1,360 @@
+import path from 'path';
+import fs from 'fs';
+import {
+  downloadYouTubeVideo,
+  extractAudioFromVideo,
+  convertAudioToWav,
+  ensureDirectoryExists,
+  getVideoDuration,
+  detectSceneChanges,
+  removeFilesWithPrefix
+} from '@/lib/videoProcessor';
+import { transcribeVideo, getYouTubeTranscript } from '@/lib/transcription';
+import { detectViralMoments, resolveDetectionOptions, MediaAnalysis } from '@/lib/viralDetector';
+import { diarizeSegments, getDiarizationConfig } from '@/lib/diarization';
+import { createUsageTracker } from '@/lib/aiClient';
+import { analyzeAudio } from '@/lib/audioFeatures';
+import { FFmpegProgress } from '@/lib/ffmpeg';
+import { jobs } from '@/lib/storage';
+import { UPLOADS_DIR, TEMP_DIR } from '@/lib/paths';
+import { runQueued } from '@/lib/queue';
+import { registerCancellableJob, releaseCancellableJob } from '@/lib/cancellation';
+import { startRetentionSweeper } from '@/lib/retention';
+import { AIUsage, AudioFeatures, DetectionOptions, IngestInput, IngestJob, IngestResult, QueueStage, Transcript } from '@/types';
+
+ensureDirectoryExists(UPLOADS_DIR);
+ensureDirectoryExists(TEMP_DIR);
+startRetentionSweeper();
+
+// Runs the ingest pipeline in the background and records failures on the job.
+// Also used to resume jobs that were interrupted by a restart.
+export function startIngestJob(jobId: string, input: IngestInput): void {
+  const signal = registerCancellableJob(jobId);
+
+  const run = input.source === 'youtube'
+    ? processYouTubeVideo(jobId, input.url, input.videoId, input.videoPath, input.detection, signal)
+    : processUploadedFile(jobId, input.videoPath, input.source, input.detection, signal);
+
+  run
+    .catch(err => {
+      if (signal.aborted) {
+        cancelIngestJob(jobId);
+        return;
+      }
+
+      console.error('Ingest processing error:', err);
+      const job = jobs.get(jobId);
+      if (job) {
+        jobs.set(jobId, { ...job, status: 'failed', error: err.message });
+      }
+    })
+    .finally(() => {
+      releaseCancellableJob(jobId);
+      // Scratch audio is only needed while the pipeline runs, whichever way it ended
+      removeFilesWithPrefix(TEMP_DIR, jobId);
+    });
+}
+
+// Marks the job cancelled and removes its source video and scratch audio
+export function cancelIngestJob(jobId: string): void {
+  removeFilesWithPrefix(UPLOADS_DIR, jobId);
+  removeFilesWithPrefix(TEMP_DIR, jobId);
+
+  const job = jobs.get(jobId);
+  if (job) {
+    jobs.set(jobId, { ...job, status: 'cancelled', currentStep: 'Cancelled', queue: undefined });
+  }
+}
+
+function completeIngestJob(jobId: string, result: IngestResult) {
+  const job = jobs.get(jobId);
+  if (!job) return;
+
+  jobs.set(jobId, {
+    ...job,
+    status: 'completed',
+    progress: 100,
+    currentStep: 'Complete',
+    result,
+  });
+}
+
+// Waits for a worker slot in `stage`, keeping the job's queue position current
+function queued<T>(jobId: string, stage: QueueStage, signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+  return runQueued(stage, jobId, task, {
+    signal,
+    onQueueChange: (queue) => jobs.update(jobId, { queue }),
+  });
+}
+
+// Diarization needs the audio, so it runs here rather than on YouTube
+// transcripts, which are fetched without downloading anything
+async function transcribeAndDiarize(jobId: string, audioPath: string, signal: AbortSignal): Promise<Transcript> {
+  const transcript = await transcribeVideo(audioPath, signal);
+  const config = getDiarizationConfig();
+  if (!config.command) return transcript;
+
+  jobs.update(jobId, { currentStep: 'Identifying speakers' });
+  return { ...transcript, segments: await diarizeSegments(audioPath, transcript.segments, config, signal) };
+}
+
+// Spreads an ffmpeg run's progress over the job's progress from `from` to `to`
+function progressBetween(jobId: string, from: number, to: number): (progress: FFmpegProgress) => void {
+  let reported = from;
+  return ({ percent }) => {
+    if (percent === undefined) return;
+    const progress = Math.floor(from + ((to - from) * percent) / 100);
+    if (progress > reported) {
+      reported = progress;
+      jobs.update(jobId, { progress });
+    }
+  };
+}
+
+// Loudness and pauses only sharpen scoring, so a failed analysis is logged and
+// detection goes ahead on the transcript alone. It decodes the whole file, so
+// it waits for a transcription slot. `extractFrom` names a video whose audio
+// has not been extracted yet. AUDIO_ANALYSIS=off skips it.
+async function analyzeAudioFeatures(
+  jobId: string,
+  audioPath: string,
+  signal: AbortSignal,
+  extractFrom?: string
+): Promise<AudioFeatures | undefined> {
+  if (process.env.AUDIO_ANALYSIS === 'off') return undefined;
+
+  jobs.update(jobId, { currentStep: 'Analyzing audio' });
+  try {
+    return await queued(jobId, 'transcription', signal, async () => {
+      if (extractFrom) await extractAudioFromVideo(extractFrom, audioPath, signal);
+      return analyzeAudio(audioPath, signal);
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Audio analysis failed, scoring on the transcript alone:', error);
+    return undefined;
+  }
+}
+
+// Camera cuts only refine clip boundaries, so like audio analysis a failure is
+// logged and skipped. It decodes the whole video, so it takes an encode slot.
+// SCENE_DETECTION=off skips it.
+async function detectShotBoundaries(
+  jobId: string,
+  videoPath: string,
+  signal: AbortSignal
+): Promise<number[] | undefined> {
+  if (process.env.SCENE_DETECTION === 'off') return undefined;
+
+  const threshold = parseFloat(process.env.SCENE_THRESHOLD || '') || 0.3;
+  try {
+    return await queued(jobId, 'encode', signal, () => {
+      jobs.update(jobId, { currentStep: 'Detecting scene changes' });
+      return detectSceneChanges(videoPath, threshold, signal);
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Scene detection failed, snapping to sentences only:', error);
+    return undefined;
+  }
+}
+
+// Returns the moments with the settings they were found with and the model
+// usage so far, all kept on the job result. Options from the request win over
+// the configured speaker-change preference and the detected language.
+async function findMoments(
+  transcript: Transcript,
+  requested: Partial<DetectionOptions> = {},
+  media: MediaAnalysis = {},
+  previousUsage?: AIUsage,
+  signal?: AbortSignal
+) {
+  const detection = resolveDetectionOptions({
+    speakerChanges: getDiarizationConfig().speakerChanges,
+    language: transcript.language,
+    ...requested,
+  });
+  const usage = createUsageTracker(previousUsage);
+  const moments = await detectViralMoments(transcript.segments, detection, media, usage, signal);
+  return { moments, detection, usage: usage.summary() };
+}
+
+// Detects moments again on a completed job's stored transcript, without
+// downloading or transcribing anything. Replaces the job's moments and, when
+// given, its requested detection options. `signal` stops a model call in
+// flight, e.g. when the client disconnects.
+export async function redetectMoments(
+  jobId: string,
+  requested?: Partial<DetectionOptions>,
+  signal?: AbortSignal
+): Promise<IngestJob> {
+  const job = jobs.get(jobId);
+  if (!job || job.status !== 'completed') {
+    throw new Error('Only completed jobs can be re-detected');
+  }
+
+  const input = requested ? { ...job.input, detection: requested } : job.input;
+  const { moments, detection, usage } = await findMoments(
+    { segments: job.result.segments, language: job.result.language },
+    input.detection,
+    { audio: job.result.audio, shotBoundaries: job.result.shotBoundaries },
+    job.result.usage,
+    signal
+  );
+
+  // The job may have been deleted or evicted while the model was ranking
+  const current = jobs.get(jobId);
+  if (!current || current.status !== 'completed') {
+    throw new Error('Job changed while detecting moments');
+  }
+
+  const updated: IngestJob = { ...current, input, result: { ...current.result, moments, detection, usage } };
+  jobs.set(jobId, updated);
+  return updated;
+}
+
+async function processYouTubeVideo(
+  jobId: string,
+  url: string,
+  videoId: string,
+  videoPath: string,
+  detectionRequest: Partial<DetectionOptions> | undefined,
+  signal: AbortSignal
+) {
+  // Try to get transcript first (faster)
+  jobs.update(jobId, {
+    progress: 10,
+    currentStep: 'Fetching transcript',
+  });
+
+  let transcript: Transcript = { segments: [] };
+  let needsDownload = false;
+  const audioPath = path.join(TEMP_DIR, `${jobId}.wav`);
+
+  try {
+    transcript = await getYouTubeTranscript(videoId);
+  } catch {
+    needsDownload = true;
+  }
+
+  signal.throwIfAborted();
+
+  if (needsDownload) {
+    jobs.update(jobId, {
+      progress: 20,
+      currentStep: 'Downloading video',
+    });
+
+    await queued(jobId, 'download', signal, () => downloadYouTubeVideo(url, videoPath, signal));
+
+    jobs.update(jobId, {
+      progress: 40,
+      currentStep: 'Transcribing audio',
+    });
+
+    transcript = await queued(jobId, 'transcription', signal, async () => {
+      await extractAudioFromVideo(videoPath, audioPath, signal);
+      return transcribeAndDiarize(jobId, audioPath, signal);
+    });
+  } else {
+    // Still download for processing
+    jobs.update(jobId, {
+      progress: 30,
+      currentStep: 'Downloading video',
+    });
+    await queued(jobId, 'download', signal, () => downloadYouTubeVideo(url, videoPath, signal));
+  }
+
+  // With YouTube captions the audio was never extracted for transcription
+  const audio = await analyzeAudioFeatures(jobId, audioPath, signal, needsDownload ? undefined : videoPath);
+  fs.rmSync(audioPath, { force: true });
+  const shotBoundaries = await detectShotBoundaries(jobId, videoPath, signal);
+
+  jobs.update(jobId, {
+    progress: 60,
+    currentStep: 'Detecting viral moments',
+  });
+
+  const { moments, detection, usage } = await findMoments(transcript, detectionRequest, { audio, shotBoundaries }, undefined, signal);
+
+  const duration = await getVideoDuration(videoPath, signal);
+
+  signal.throwIfAborted();
+
+  completeIngestJob(jobId, {
+    videoPath,
+    segments: transcript.segments,
+    moments,
+    duration,
+    source: 'youtube',
+    language: transcript.language,
+    detection,
+    usage,
+    audio,
+    shotBoundaries,
+  });
+}
+
+async function processUploadedFile(
+  jobId: string,
+  videoPath: string,
+  source: 'upload' | 'audio',
+  detectionRequest: Partial<DetectionOptions> | undefined,
+  signal: AbortSignal
+) {
+  jobs.update(jobId, {
+    progress: 20,
+    currentStep: 'Extracting audio',
+  });
+
+  const audioPath = path.join(TEMP_DIR, `${jobId}.wav`);
+
+  const transcript = await queued(jobId, 'transcription', signal, async () => {
+    const onProgress = progressBetween(jobId, 20, 40);
+    if (source === 'audio') {
+      // For audio files, convert to wav
+      await convertAudioToWav(videoPath, audioPath, signal, onProgress);
+    } else {
+      await extractAudioFromVideo(videoPath, audioPath, signal, onProgress);
+    }
+
+    jobs.update(jobId, {
+      progress: 40,
+      currentStep: 'Transcribing audio',
+    });
+
+    return transcribeAndDiarize(jobId, audioPath, signal);
+  });
+
+  const audio = await analyzeAudioFeatures(jobId, audioPath, signal);
+  fs.unlinkSync(audioPath);
+  // Audio-only uploads have no picture to cut
+  const shotBoundaries = source === 'upload' ? await detectShotBoundaries(jobId, videoPath, signal) : undefined;
+
+  jobs.update(jobId, {
+    progress: 70,
+    currentStep: 'Detecting viral moments',
+  });
+
+  const { moments, detection, usage } = await findMoments(transcript, detectionRequest, { audio, shotBoundaries }, undefined, signal);
+
+  let duration = 0;
+  if (source === 'upload') {
+    duration = await getVideoDuration(videoPath, signal);
+  }
+
+  signal.throwIfAborted();
+
+  completeIngestJob(jobId, {
+    videoPath,
+    segments: transcript.segments,
+    moments,
+    duration,
+    source,
+    language: transcript.language,
+    detection,
+    usage,
+    audio,
+    shotBoundaries,
+  });
+}
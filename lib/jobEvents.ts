@@ -0,0 +1,32 @@
+import { EventEmitter } from 'events';
+import { IngestJob, ClipJob, ClipResult } from '@/types';
+
+export type JobEvent =
+  | { type: 'progress'; job: IngestJob | ClipJob }
+  | { type: 'clip'; clip: ClipResult };
+
+// Shared across hot reloads so running pipelines and open streams keep talking
+// to the same emitter.
+const globalForEvents = globalThis as unknown as { jobEvents?: EventEmitter };
+
+if (!globalForEvents.jobEvents) {
+  globalForEvents.jobEvents = new EventEmitter();
+  globalForEvents.jobEvents.setMaxListeners(0);
+}
+
+const emitter = globalForEvents.jobEvents;
+
+export function publishJobEvent(jobId: string, event: JobEvent): void {
+  emitter.emit(jobId, event);
+}
+
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
+
+export function isTerminalStatus(status: IngestJob['status']): boolean {
+  return status !== 'pending' && status !== 'processing';
+}
@@ -0,0 +1,107 @@
+// Emotion names are shared across languages; caption emojis are keyed on them
+export type Emotion = 'excitement' | 'surprise' | 'urgency' | 'curiosity' | 'controversy';
+
+export interface KeywordDictionary {
+  viral: string[];
+  emotions: Record<Emotion, string[]>;
+}
+
+// Matched as lowercase substrings of the transcript, so stems ("increíble",
+// "incroyable") also catch inflected forms
+export const KEYWORD_DICTIONARIES: Record<string, KeywordDictionary> = {
+  en: {
+    viral: [
+      'shocking', 'crazy', 'insane', 'unbelievable', 'secret', 'revealed', 'truth',
+      'amazing', 'incredible', 'must see', 'warning', 'exposed', 'never', 'always',
+      'everyone', 'nobody', 'mistake', 'hack', 'trick', 'best', 'worst', 'first time',
+      'story', 'happened', 'realized', 'discovered', 'finally', 'actually'
+    ],
+    emotions: {
+      excitement: ['excited', 'amazing', 'incredible', 'wow', 'awesome', 'fantastic'],
+      surprise: ['shocking', 'surprised', 'unexpected', 'suddenly', 'wait', 'what'],
+      urgency: ['now', 'must', 'need', 'quick', 'important', 'immediately'],
+      curiosity: ['why', 'how', 'what if', 'imagine', 'think about', 'ever wondered'],
+      controversy: ['wrong', 'lie', 'truth', 'exposed', 'hidden', 'secret'],
+    },
+  },
+  es: {
+    viral: [
+      'impactante', 'locura', 'loco', 'increíble', 'secreto', 'revelado', 'verdad',
+      'asombroso', 'tienes que ver', 'advertencia', 'expuesto', 'nunca', 'siempre',
+      'todo el mundo', 'nadie', 'error', 'truco', 'mejor', 'peor', 'primera vez',
+      'historia', 'pasó', 'me di cuenta', 'descubrí', 'por fin', 'en realidad'
+    ],
+    emotions: {
+      excitement: ['emocionado', 'increíble', 'guau', 'genial', 'fantástico', 'brutal'],
+      surprise: ['impactante', 'sorprendido', 'inesperado', 'de repente', 'espera', 'qué'],
+      urgency: ['ahora', 'tienes que', 'necesitas', 'rápido', 'importante', 'inmediatamente'],
+      curiosity: ['por qué', 'cómo', 'qué pasaría si', 'imagina', 'piensa en', 'alguna vez'],
+      controversy: ['equivocado', 'mentira', 'verdad', 'expuesto', 'oculto', 'secreto'],
+    },
+  },
+  fr: {
+    viral: [
+      'choquant', 'fou', 'dingue', 'incroyable', 'secret', 'révélé', 'vérité',
+      'étonnant', 'à voir', 'attention', 'exposé', 'jamais', 'toujours',
+      'tout le monde', 'personne', 'erreur', 'astuce', 'meilleur', 'pire', 'première fois',
+      'histoire', 'arrivé', 'compris', 'découvert', 'enfin', 'en fait'
+    ],
+    emotions: {
+      excitement: ['excité', 'incroyable', 'waouh', 'génial', 'fantastique', 'énorme'],
+      surprise: ['choquant', 'surpris', 'inattendu', 'soudain', 'attends', 'quoi'],
+      urgency: ['maintenant', 'il faut', 'besoin', 'vite', 'important', 'immédiatement'],
+      curiosity: ['pourquoi', 'comment', 'et si', 'imagine', 'pensez à', 'déjà demandé'],
+      controversy: ['faux', 'mensonge', 'vérité', 'exposé', 'caché', 'secret'],
+    },
+  },
+  de: {
+    viral: [
+      'schockierend', 'verrückt', 'wahnsinn', 'unglaublich', 'geheimnis', 'enthüllt', 'wahrheit',
+      'erstaunlich', 'musst du sehen', 'warnung', 'aufgedeckt', 'niemals', 'immer',
+      'jeder', 'niemand', 'fehler', 'trick', 'beste', 'schlimmste', 'zum ersten mal',
+      'geschichte', 'passiert', 'gemerkt', 'entdeckt', 'endlich', 'eigentlich'
+    ],
+    emotions: {
+      excitement: ['aufgeregt', 'unglaublich', 'wow', 'großartig', 'fantastisch', 'krass'],
+      surprise: ['schockierend', 'überrascht', 'unerwartet', 'plötzlich', 'warte', 'was'],
+      urgency: ['jetzt', 'muss', 'brauchst', 'schnell', 'wichtig', 'sofort'],
+      curiosity: ['warum', 'wie', 'was wäre wenn', 'stell dir vor', 'denk mal', 'jemals gefragt'],
+      controversy: ['falsch', 'lüge', 'wahrheit', 'aufgedeckt', 'versteckt', 'geheim'],
+    },
+  },
+  pt: {
+    viral: [
+      'chocante', 'louco', 'insano', 'inacreditável', 'segredo', 'revelado', 'verdade',
+      'incrível', 'tem que ver', 'aviso', 'exposto', 'nunca', 'sempre',
+      'todo mundo', 'ninguém', 'erro', 'truque', 'melhor', 'pior', 'primeira vez',
+      'história', 'aconteceu', 'percebi', 'descobri', 'finalmente', 'na verdade'
+    ],
+    emotions: {
+      excitement: ['animado', 'incrível', 'uau', 'demais', 'fantástico', 'sensacional'],
+      surprise: ['chocante', 'surpreso', 'inesperado', 'de repente', 'espera', 'o quê'],
+      urgency: ['agora', 'precisa', 'tem que', 'rápido', 'importante', 'imediatamente'],
+      curiosity: ['por que', 'como', 'e se', 'imagina', 'pensa nisso', 'já se perguntou'],
+      controversy: ['errado', 'mentira', 'verdade', 'exposto', 'escondido', 'segredo'],
+    },
+  },
+  it: {
+    viral: [
+      'scioccante', 'pazzesco', 'folle', 'incredibile', 'segreto', 'rivelato', 'verità',
+      'sorprendente', 'da vedere', 'attenzione', 'smascherato', 'mai', 'sempre',
+      'tutti', 'nessuno', 'errore', 'trucco', 'migliore', 'peggiore', 'prima volta',
+      'storia', 'successo', 'ho capito', 'scoperto', 'finalmente', 'in realtà'
+    ],
+    emotions: {
+      excitement: ['emozionato', 'incredibile', 'wow', 'fantastico', 'stupendo', 'pazzesco'],
+      surprise: ['scioccante', 'sorpreso', 'inaspettato', 'improvvisamente', 'aspetta', 'cosa'],
+      urgency: ['adesso', 'devi', 'bisogno', 'veloce', 'importante', 'subito'],
+      curiosity: ['perché', 'come', 'e se', 'immagina', 'pensaci', 'ti sei mai chiesto'],
+      controversy: ['sbagliato', 'bugia', 'verità', 'smascherato', 'nascosto', 'segreto'],
+    },
+  },
+};
+
+// Falls back to English for languages without a dictionary
+export function getKeywordDictionary(language?: string): KeywordDictionary {
+  return KEYWORD_DICTIONARIES[language || 'en'] || KEYWORD_DICTIONARIES.en;
+}
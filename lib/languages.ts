@@ -0,0 +1,54 @@
+// ISO 639-1 codes for the languages Whisper transcribes most reliably, with
+// the English names the OpenAI API reports instead of codes
+export const LANGUAGE_NAMES: Record<string, string> = {
+  ar: 'arabic',
+  cs: 'czech',
+  da: 'danish',
+  de: 'german',
+  el: 'greek',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  he: 'hebrew',
+  hi: 'hindi',
+  hu: 'hungarian',
+  id: 'indonesian',
+  it: 'italian',
+  ja: 'japanese',
+  ko: 'korean',
+  ms: 'malay',
+  nl: 'dutch',
+  no: 'norwegian',
+  pl: 'polish',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  th: 'thai',
+  tl: 'tagalog',
+  tr: 'turkish',
+  uk: 'ukrainian',
+  vi: 'vietnamese',
+  zh: 'chinese',
+};
+
+// Language codes accepted from clients: ISO 639-1, optionally with a region
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+// Turns whatever a transcription source reports ("english", "en", "en-US")
+// into a bare ISO 639-1 code
+export function normalizeLanguage(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const lower = value.trim().toLowerCase();
+  const code = lower.split(/[-_]/)[0];
+  if (/^[a-z]{2}$/.test(code)) return code;
+
+  return Object.keys(LANGUAGE_NAMES).find(key => LANGUAGE_NAMES[key] === lower);
+}
+
+export function languageName(code: string): string {
+  const name = LANGUAGE_NAMES[code.split('-')[0]];
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : code;
+}
@@ -0,0 +1,6 @@
+import type { ClipFormat, ClipLayout } from '@/types';
+
+// Horizontal clips keep the whole frame by default; the others fill it
+export function defaultLayout(format: ClipFormat): ClipLayout {
+  return format === '16:9' ? 'fit-color' : 'crop';
+}
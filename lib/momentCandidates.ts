@@ -0,0 +1,275 @@
+import { SpeakerChangePreference, TranscriptSegment } from '@/types';
+import { KeywordDictionary } from '@/lib/keywordDictionaries';
+import { DeliveryScorer, scoreDelivery } from '@/lib/audioFeatures';
+
+// A scored window over segments[startIndex..endIndex], inclusive
+export interface MomentCandidate {
+  startIndex: number;
+  endIndex: number;
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface CandidateOptions {
+  minDuration: number;
+  maxDuration: number;
+  speakerChanges: SpeakerChangePreference;
+  minScore: number;
+  boostKeywords: string[];
+  penaltyKeywords: string[];
+}
+
+// A pause this long between segments counts as a sentence boundary, which
+// matters for auto-generated captions that carry no punctuation
+const BOUNDARY_PAUSE_SECONDS = 0.6;
+
+const SENTENCE_END = /[.!?。！？]["'”’)\]]*$/;
+
+// Running totals of every per-segment feature the score uses, so any window's
+// features are a subtraction away. Index k holds the total over segments[0..k-1].
+interface PrefixSums {
+  keywords: number[];
+  emotions: number[];
+  boosts: number[];
+  penalties: number[];
+  questions: number[];
+  exclamations: number[];
+  characters: number[];
+  sentences: number[];
+  // speakerChanges[k] counts changes between consecutive labelled segments up
+  // to and including segment k-1
+  speakerChanges: number[];
+}
+
+function countMatches(lowerText: string, keywords: string[]): number {
+  return keywords.filter(kw => lowerText.includes(kw)).length;
+}
+
+function buildPrefixSums(
+  segments: TranscriptSegment[],
+  dictionary: KeywordDictionary,
+  options: CandidateOptions
+): PrefixSums {
+  const sums: PrefixSums = {
+    keywords: [0],
+    emotions: [0],
+    boosts: [0],
+    penalties: [0],
+    questions: [0],
+    exclamations: [0],
+    characters: [0],
+    sentences: [0],
+    speakerChanges: [0],
+  };
+  const emotionLists = Object.values(dictionary.emotions);
+  let lastSpeaker: string | undefined;
+
+  segments.forEach((segment, k) => {
+    const lowerText = segment.text.toLowerCase();
+    const sentenceCount = segment.text.split(/[.!?。！？]+/).filter(s => s.trim().length > 0).length;
+
+    let changed = 0;
+    if (segment.speaker) {
+      if (lastSpeaker && segment.speaker !== lastSpeaker) changed = 1;
+      lastSpeaker = segment.speaker;
+    }
+
+    sums.keywords.push(sums.keywords[k] + countMatches(lowerText, dictionary.viral));
+    sums.emotions.push(sums.emotions[k] + emotionLists.reduce((count, keywords) => count + countMatches(lowerText, keywords), 0));
+    sums.boosts.push(sums.boosts[k] + countMatches(lowerText, options.boostKeywords));
+    sums.penalties.push(sums.penalties[k] + countMatches(lowerText, options.penaltyKeywords));
+    sums.questions.push(sums.questions[k] + (segment.text.match(/[?？]/g) || []).length);
+    sums.exclamations.push(sums.exclamations[k] + (segment.text.match(/[!！]/g) || []).length);
+    sums.characters.push(sums.characters[k] + segment.text.length);
+    sums.sentences.push(sums.sentences[k] + sentenceCount);
+    sums.speakerChanges.push(sums.speakerChanges[k] + changed);
+  });
+
+  return sums;
+}
+
+function range(prefix: number[], from: number, to: number): number {
+  return prefix[to + 1] - prefix[from];
+}
+
+// Same weights as the original per-window scorer, computed in O(1) per window.
+// Keywords are counted per segment, so a phrase split across two segments is
+// missed and a keyword repeated in several segments counts more than once.
+// `delivery` adds what the audio and pace of the window are worth.
+function scoreWindow(
+  sums: PrefixSums,
+  from: number,
+  to: number,
+  speakerChanges: SpeakerChangePreference,
+  delivery: number
+): number {
+  let score = 0;
+
+  score += range(sums.keywords, from, to) * 0.1;
+  score += range(sums.emotions, from, to) * 0.08;
+  score += range(sums.questions, from, to) * 0.15;
+  score += range(sums.exclamations, from, to) * 0.1;
+
+  // Caller-supplied keywords
+  score += range(sums.boosts, from, to) * 0.15;
+  score -= range(sums.penalties, from, to) * 0.2;
+
+  // Speaker intensity (short, punchy segments)
+  const avgSegmentLength = range(sums.characters, from, to) / (to - from + 1);
+  if (avgSegmentLength < 50) score += 0.2;
+
+  // Sentence variety
+  const sentences = range(sums.sentences, from, to);
+  if (sentences >= 3 && sentences <= 8) score += 0.15;
+
+  // Changes strictly inside the window; one at `from` is with the segment before it
+  const changes = sums.speakerChanges[to + 1] - sums.speakerChanges[from + 1];
+  if (speakerChanges === 'prefer') score += Math.min(changes * 0.1, 0.3);
+  if (speakerChanges === 'avoid') score -= changes * 0.15;
+
+  score += delivery;
+
+  return Math.min(Math.max(score, 0), 1);
+}
+
+// Segment k ends a sentence when its text does or when a pause follows it
+export function findSentenceEnds(segments: TranscriptSegment[]): boolean[] {
+  return segments.map((segment, k) => {
+    if (k === segments.length - 1) return true;
+    if (SENTENCE_END.test(segment.text.trim())) return true;
+    return segments[k + 1].start - segment.end >= BOUNDARY_PAUSE_SECONDS;
+  });
+}
+
+// Scores every window that starts and ends on a sentence boundary and lasts
+// minDuration..maxDuration seconds. For each start the end pointer only moves
+// forward, so the work is proportional to segments × segments-per-window.
+export function generateCandidates(
+  segments: TranscriptSegment[],
+  dictionary: KeywordDictionary,
+  options: CandidateOptions,
+  delivery?: DeliveryScorer
+): MomentCandidate[] {
+  if (segments.length === 0) return [];
+
+  const sums = buildPrefixSums(segments, dictionary, options);
+  let sentenceEnds = findSentenceEnds(segments);
+
+  // Transcripts without punctuation or pauses have too few boundaries to fit
+  // windows between, so every segment boundary is allowed instead
+  const totalDuration = segments[segments.length - 1].end - segments[0].start;
+  if (sentenceEnds.filter(Boolean).length < totalDuration / options.maxDuration) {
+    sentenceEnds = segments.map(() => true);
+  }
+
+  return scanWindows(segments, sums, sentenceEnds, options, delivery);
+}
+
+function scanWindows(
+  segments: TranscriptSegment[],
+  sums: PrefixSums,
+  sentenceEnds: boolean[],
+  options: CandidateOptions,
+  delivery?: DeliveryScorer
+): MomentCandidate[] {
+  const candidates: MomentCandidate[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    if (i > 0 && !sentenceEnds[i - 1]) continue;
+
+    for (let j = i; j < segments.length; j++) {
+      const duration = segments[j].end - segments[i].start;
+      if (duration > options.maxDuration) break;
+      if (duration < options.minDuration || !sentenceEnds[j]) continue;
+
+      const bonus = delivery ? scoreDelivery(delivery(i, j)) : 0;
+      const score = scoreWindow(sums, i, j, options.speakerChanges, bonus);
+      if (score > options.minScore) {
+        candidates.push({ startIndex: i, endIndex: j, start: segments[i].start, end: segments[j].end, score });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+export function timeIoU(a: { start: number; end: number }, b: { start: number; end: number }): number {
+  const intersection = Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+  const union = Math.max(a.end, b.end) - Math.min(a.start, b.start);
+  return union > 0 ? intersection / union : 0;
+}
+
+export interface SelectionOptions {
+  maxOverlap: number;
+  minGap: number;
+  diversity: number;
+  limit: number;
+}
+
+interface TimedScore {
+  start: number;
+  end: number;
+  score: number;
+}
+
+// Seconds between two ranges, 0 when they touch or overlap
+function gapBetween(a: TimedScore, b: TimedScore): number {
+  return Math.max(0, Math.max(a.start, b.start) - Math.min(a.end, b.end));
+}
+
+// Greedy selection with non-maximum suppression. Each round keeps the
+// candidate with the best adjusted score, where the adjustment shrinks the
+// score of candidates close to ones already kept:
+//
+//   adjusted = score * (1 - diversity * e^(-distance / spread))
+//
+// `spread` is the span of all candidates divided by `limit`, i.e. the spacing
+// of evenly distributed picks. Candidates that overlap a kept one by more than
+// `maxOverlap` IoU, or sit within `minGap` seconds of it, are never kept.
+export function selectMoments<T extends TimedScore>(candidates: T[], options: SelectionOptions): T[] {
+  if (candidates.length === 0) return [];
+
+  // Reduced rather than spread: long transcripts give more candidates than a
+  // call can take as arguments
+  const first = candidates.reduce((min, c) => Math.min(min, c.start), Infinity);
+  const last = candidates.reduce((max, c) => Math.max(max, c.end), -Infinity);
+  const spread = Math.max((last - first) / options.limit, 1);
+
+  const pool = [...candidates];
+  const distances = pool.map(() => Infinity);
+  const kept: T[] = [];
+
+  while (kept.length < options.limit && pool.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    pool.forEach((candidate, index) => {
+      const closeness = Number.isFinite(distances[index]) ? Math.exp(-distances[index] / spread) : 0;
+      const adjusted = candidate.score * (1 - options.diversity * closeness);
+      if (adjusted > bestScore) {
+        bestScore = adjusted;
+        bestIndex = index;
+      }
+    });
+
+    const [picked] = pool.splice(bestIndex, 1);
+    distances.splice(bestIndex, 1);
+    kept.push(picked);
+
+    // Drop what the pick rules out and bring the rest's distances up to date
+    for (let index = pool.length - 1; index >= 0; index--) {
+      const candidate = pool[index];
+      const gap = gapBetween(candidate, picked);
+
+      if (timeIoU(candidate, picked) > options.maxOverlap || gap < options.minGap) {
+        pool.splice(index, 1);
+        distances.splice(index, 1);
+      } else {
+        distances[index] = Math.min(distances[index], gap);
+      }
+    }
+  }
+
+  return kept;
+}
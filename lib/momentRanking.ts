@@ -0,0 +1,327 @@
+import OpenAI from 'openai';
+import { DetectionOptions, MomentCopy, TargetPlatform, TranscriptSegment, ViralMoment } from '@/types';
+import { parseMomentRankings, ValidationError } from '@/lib/validation';
+import { getAIClient, getModelPrice, ModelPrice, UsageTracker } from '@/lib/aiClient';
+import { isInMoment } from '@/lib/momentSegments';
+
+// Bump whenever the prompt or schema changes; it is stored on every
+// model-scored moment so rankings from different prompts can be told apart
+export const RANKING_PROMPT_VERSION = 'moment-ranking/4';
+
+export interface MomentRanking {
+  clipNumber: number;
+  viralScore: number;
+  reason: string;
+  // Suggested boundaries in seconds, snapped to the transcript before use
+  start: number;
+  end: number;
+  copy: MomentCopy;
+}
+
+// Declared to the API as a strict JSON schema and checked again by
+// parseMomentRankings, since older models ignore the schema
+export const RANKING_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    rankings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          clipNumber: { type: 'integer', description: '1-based index of the clip in the list' },
+          viralScore: { type: 'number', description: 'Viral potential from 1 (low) to 10 (high)' },
+          reason: { type: 'string', description: 'One short sentence explaining the score' },
+          start: { type: 'number', description: 'Suggested start in seconds, the start time of a listed line' },
+          end: { type: 'number', description: 'Suggested end in seconds, the end time of a listed line' },
+          title: { type: 'string', description: 'Clip title, at most 70 characters' },
+          description: { type: 'string', description: 'Post caption ready for the target platform' },
+          hashtags: { type: 'array', items: { type: 'string' }, description: '3 to 8 hashtags without #' },
+        },
+        required: ['clipNumber', 'viralScore', 'reason', 'start', 'end', 'title', 'description', 'hashtags'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['rankings'],
+  additionalProperties: false,
+} as const;
+
+// Seconds of transcript shown before and after each clip
+const CONTEXT_SECONDS = 20;
+const MAX_CONTEXT_CHARACTERS = 600;
+
+// Transcript lines with their timings, so the model can pick boundaries
+function timedLines(segments: TranscriptSegment[]): string {
+  return segments
+    .map(s => `[${s.start.toFixed(1)}-${s.end.toFixed(1)}] ${s.text.trim()}`)
+    .join('\n');
+}
+
+// Lines spoken in the CONTEXT_SECONDS before and after a moment, capped at
+// MAX_CONTEXT_CHARACTERS with the lines nearest the clip kept
+function momentContext(segments: TranscriptSegment[], moment: ViralMoment) {
+  const inside = segments.filter(s => isInMoment(s, moment));
+  const middle = (s: TranscriptSegment) => (s.start + s.end) / 2;
+  const before = segments.filter(s => middle(s) < moment.start && s.end > moment.start - CONTEXT_SECONDS);
+  const after = segments.filter(s => middle(s) > moment.end && s.start < moment.end + CONTEXT_SECONDS);
+
+  const fit = (lines: TranscriptSegment[], fromEnd: boolean) => {
+    const kept: TranscriptSegment[] = [];
+    let characters = 0;
+    for (const line of fromEnd ? [...lines].reverse() : lines) {
+      characters += line.text.length;
+      if (characters > MAX_CONTEXT_CHARACTERS) break;
+      kept.push(line);
+    }
+    return fromEnd ? kept.reverse() : kept;
+  };
+
+  return { before: fit(before, true), inside, after: fit(after, false) };
+}
+
+const PLATFORM_NAMES: Record<TargetPlatform, string> = {
+  'tiktok': 'TikTok',
+  'youtube-shorts': 'YouTube Shorts',
+  'instagram-reels': 'Instagram Reels',
+  'linkedin': 'LinkedIn',
+};
+
+export type RankingSettings = Pick<DetectionOptions, 'minDuration' | 'maxDuration' | 'platform'>;
+
+export function buildRankingPrompt(
+  moments: ViralMoment[],
+  segments: TranscriptSegment[],
+  settings: RankingSettings
+): string {
+  const clips = moments.map((moment, i) => {
+    const context = momentContext(segments, moment);
+    return `Clip ${i + 1} [${moment.start.toFixed(1)}s - ${moment.end.toFixed(1)}s]
+Before:
+${timedLines(context.before) || '(start of video)'}
+Clip:
+${timedLines(context.inside)}
+After:
+${timedLines(context.after) || '(end of video)'}${moment.deliverySignals?.length ? `
+Heard in the audio: ${moment.deliverySignals.join(', ')}` : ''}`;
+  });
+  const platform = settings.platform ? PLATFORM_NAMES[settings.platform] : 'short-form social video';
+
+  return `You are an expert at identifying viral social media content. Rate each candidate clip below for its viral potential as a standalone short video on ${platform}.
+
+Each clip is shown as timed transcript lines ([start-end] in seconds), with the lines just before and after it. Use that context to judge whether the clip makes sense on its own. Some clips also list what the audio analysis heard, such as laughter or raised voices, which the transcript does not show.
+
+${clips.join('\n\n')}
+
+For every clip also suggest:
+- boundaries that open on a hook and close on a complete thought. Start at the start time of a listed line and end at the end time of one; you may move into the Before/After lines. Keep the clip between ${settings.minDuration} and ${settings.maxDuration} seconds.
+- a title of at most 70 characters, a description written as a ${platform} post caption, and 3 to 8 relevant hashtags without '#'.
+
+Respond with a JSON object {"rankings": [...]} containing exactly one entry per clip (${moments.length} in total), each with:
+- clipNumber: the clip's number above (1-${moments.length})
+- viralScore: a number from 1 (low) to 10 (high)
+- reason: one short sentence explaining the score
+- start, end: the suggested boundaries in seconds
+- title, description, hashtags: the publishing copy`;
+}
+
+export interface RankingProvider {
+  name: string;
+  // Returns the moments rescored, in the order given. Rejects once `signal`
+  // aborts instead of falling back to the heuristic scores.
+  rank(
+    moments: ViralMoment[],
+    segments: TranscriptSegment[],
+    settings: RankingSettings,
+    usage?: UsageTracker,
+    signal?: AbortSignal
+  ): Promise<ViralMoment[]>;
+}
+
+function keepHeuristicScores(moments: ViralMoment[]): ViralMoment[] {
+  return moments.map(moment => ({ ...moment, scoreSource: 'heuristic' as const }));
+}
+
+// Keeps the heuristic scores without calling a model
+export function createHeuristicRankingProvider(): RankingProvider {
+  return {
+    name: 'heuristic',
+    rank: async (moments) => keepHeuristicScores(moments),
+  };
+}
+
+export interface LLMRankingOptions {
+  name: string;
+  client: OpenAI;
+  model: string;
+  maxRetries: number;
+  // Servers without structured output support get 'json_object'; the reply is
+  // validated either way
+  responseFormat: 'json_schema' | 'json_object';
+  // Unset for models without a known price; their calls are counted at no cost
+  price?: ModelPrice;
+}
+
+// Rescores moments with a chat model. Malformed replies are sent back with the
+// validation error so the model can correct itself; if every attempt fails,
+// the heuristic scores are kept.
+export function createLLMRankingProvider(options: LLMRankingOptions): RankingProvider {
+  const responseFormat = options.responseFormat === 'json_schema'
+    ? { type: 'json_schema' as const, json_schema: { name: 'moment_rankings', strict: true, schema: RANKING_RESPONSE_SCHEMA } }
+    : { type: 'json_object' as const };
+
+  return {
+    name: options.name,
+    rank: async (moments, segments, settings, usage, signal) => {
+      if (moments.length === 0) return [];
+
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'user', content: buildRankingPrompt(moments, segments, settings) },
+      ];
+
+      for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+        let reply = '';
+        try {
+          const response = await options.client.chat.completions.create({
+            model: options.model,
+            messages,
+            response_format: responseFormat,
+            temperature: 0.3,
+          }, { signal });
+          usage?.record(response.usage, options.price);
+
+          reply = response.choices[0].message.content || '';
+          const rankings = parseMomentRankings(JSON.parse(reply), moments.length);
+          return applyRankings(moments, rankings, segments, settings);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          const malformed = error instanceof SyntaxError || error instanceof ValidationError;
+          console.warn(`AI ranking attempt ${attempt + 1} failed${malformed ? ' with malformed output' : ''}:`, error);
+
+          if (malformed) {
+            messages.push(
+              { role: 'assistant', content: reply },
+              { role: 'user', content: `That response was invalid (${(error as Error).message}). Reply again with only the corrected JSON object.` }
+            );
+          }
+        }
+      }
+
+      console.error(`AI ranking gave up after ${options.maxRetries + 1} attempts; keeping heuristic scores`);
+      return keepHeuristicScores(moments);
+    },
+  };
+}
+
+// Picks the backend from RANKING_PROVIDER: "openai" (default), "openai-compatible"
+// for a local server at RANKING_BASE_URL, or "heuristic" to skip the model.
+// Without an OpenAI key the "openai" backend falls back to heuristic scores.
+export function getRankingProvider(): RankingProvider {
+  const provider = process.env.RANKING_PROVIDER || 'openai';
+  const retries = parseInt(process.env.RANKING_MAX_RETRIES || '', 10);
+  const maxRetries = retries >= 0 ? retries : 2;
+  const responseFormat = process.env.RANKING_RESPONSE_FORMAT === 'json_object' ? 'json_object' : 'json_schema';
+
+  switch (provider) {
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) return createHeuristicRankingProvider();
+
+      const model = process.env.RANKING_MODEL || 'gpt-4o-mini';
+      return createLLMRankingProvider({
+        name: 'openai',
+        client: getAIClient(),
+        model,
+        maxRetries,
+        responseFormat,
+        price: configuredPrice() ?? getModelPrice(model),
+      });
+    }
+    case 'openai-compatible': {
+      if (!process.env.RANKING_BASE_URL || !process.env.RANKING_MODEL) {
+        throw new Error('RANKING_BASE_URL and RANKING_MODEL must be set for the openai-compatible ranking provider');
+      }
+
+      return createLLMRankingProvider({
+        name: 'openai-compatible',
+        client: getAIClient({ baseURL: process.env.RANKING_BASE_URL, apiKey: process.env.RANKING_API_KEY }),
+        model: process.env.RANKING_MODEL,
+        maxRetries,
+        responseFormat,
+        price: configuredPrice(),
+      });
+    }
+    case 'heuristic':
+      return createHeuristicRankingProvider();
+    default:
+      throw new Error(`Unknown RANKING_PROVIDER "${provider}"`);
+  }
+}
+
+// RANKING_PRICE_INPUT / RANKING_PRICE_OUTPUT, in dollars per million tokens
+function configuredPrice(): ModelPrice | undefined {
+  const input = parseFloat(process.env.RANKING_PRICE_INPUT || '');
+  const output = parseFloat(process.env.RANKING_PRICE_OUTPUT || '');
+  return input >= 0 && output >= 0 ? { input, output } : undefined;
+}
+
+function applyRankings(
+  moments: ViralMoment[],
+  rankings: MomentRanking[],
+  segments: TranscriptSegment[],
+  settings: RankingSettings
+): ViralMoment[] {
+  return moments.map((moment, index) => {
+    const ranking = rankings.find(r => r.clipNumber === index + 1)!;
+    const range = snapToTranscript(segments, moment, ranking, settings);
+    const moved = range && (range.start !== moment.start || range.end !== moment.end);
+
+    return {
+      ...moment,
+      ...(moved && {
+        start: range.start,
+        end: range.end,
+        text: range.text,
+        heuristicRange: { start: moment.start, end: moment.end },
+      }),
+      score: ranking.viralScore / 10,
+      // The model can't hear the audio, so its signals stay listed
+      reason: moment.deliverySignals?.length
+        ? `${ranking.reason} (${moment.deliverySignals.join(', ')})`
+        : ranking.reason,
+      scoreSource: 'model',
+      heuristicScore: moment.score,
+      promptVersion: RANKING_PROMPT_VERSION,
+      copy: ranking.copy,
+    };
+  });
+}
+
+// Moves suggested boundaries onto the nearest line start and end within the
+// context the model was shown. Returns undefined, keeping the detected range,
+// when the result falls outside the duration limits.
+function snapToTranscript(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  ranking: MomentRanking,
+  settings: RankingSettings
+): { start: number; end: number; text: string } | undefined {
+  const nearby = segments.filter(s =>
+    s.end > moment.start - CONTEXT_SECONDS && s.start < moment.end + CONTEXT_SECONDS
+  );
+  const nearest = (times: number[], target: number) =>
+    times.reduce((best, time) => Math.abs(time - target) < Math.abs(best - target) ? time : best);
+
+  const start = nearest(nearby.map(s => s.start), ranking.start);
+  const ends = nearby.map(s => s.end).filter(end => end > start);
+  if (ends.length === 0) return undefined;
+  const end = nearest(ends, ranking.end);
+
+  const duration = end - start;
+  if (duration < settings.minDuration || duration > settings.maxDuration) return undefined;
+
+  const text = nearby
+    .filter(s => s.start >= start && s.end <= end)
+    .map(s => s.text)
+    .join(' ');
+  return { start, end, text };
+}
@@ -0,0 +1,29 @@
+import { TranscriptSegment } from '@/types';
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Whether a segment's text belongs to a moment. Snapped boundaries can fall
+// inside a segment; one cut in two belongs to the side holding most of it.
+export function isInMoment(segment: TranscriptSegment, moment: TimeRange): boolean {
+  const middle = (segment.start + segment.end) / 2;
+  return middle >= moment.start && middle <= moment.end;
+}
+
+// The segments belonging to a moment, with their times and word timings
+// trimmed to it so captions never start before the clip or outlast it
+export function trimToMoment(segments: TranscriptSegment[], moment: TimeRange): TranscriptSegment[] {
+  const clamp = (time: number) => Math.min(moment.end, Math.max(moment.start, time));
+
+  return segments.filter(s => isInMoment(s, moment)).map(segment => {
+    if (segment.start >= moment.start && segment.end <= moment.end) return segment;
+    return {
+      ...segment,
+      start: clamp(segment.start),
+      end: clamp(segment.end),
+      words: segment.words?.map(word => ({ ...word, start: clamp(word.start), end: clamp(word.end) })),
+    };
+  });
+}
@@ -0,0 +1,6 @@
+import path from 'path';
+
+export const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+export const TEMP_DIR = path.join(process.cwd(), 'temp');
+export const CLIPS_DIR = path.join(process.cwd(), 'clips');
+export const DATA_DIR = process.env.JOB_STORE_DIR || path.join(process.cwd(), 'data');
@@ -0,0 +1,119 @@
+import { QueueStage, QueuePosition } from '@/types';
+
+const DEFAULT_CONCURRENCY: Record<QueueStage, number> = {
+  download: 2,
+  transcription: 2,
+  encode: 2,
+};
+
+const CONCURRENCY_ENV: Record<QueueStage, string> = {
+  download: 'QUEUE_DOWNLOAD_CONCURRENCY',
+  transcription: 'QUEUE_TRANSCRIPTION_CONCURRENCY',
+  encode: 'QUEUE_ENCODE_CONCURRENCY',
+};
+
+interface PendingTask {
+  jobId: string;
+  start: () => void;
+  onQueueChange?: (position: QueuePosition | undefined) => void;
+}
+
+interface StageState {
+  active: number;
+  pending: PendingTask[];
+}
+
+// Shared across hot reloads so limits hold for pipelines started before a reload
+const globalForQueue = globalThis as unknown as { queueStages?: Record<QueueStage, StageState> };
+
+if (!globalForQueue.queueStages) {
+  globalForQueue.queueStages = {
+    download: { active: 0, pending: [] },
+    transcription: { active: 0, pending: [] },
+    encode: { active: 0, pending: [] },
+  };
+}
+
+const stages = globalForQueue.queueStages;
+
+export function getConcurrency(stage: QueueStage): number {
+  const configured = parseInt(process.env[CONCURRENCY_ENV[stage]] || '', 10);
+  return configured > 0 ? configured : DEFAULT_CONCURRENCY[stage];
+}
+
+// Reports each waiting job's place in line. A job with several waiting tasks
+// (parallel clip encodes) is reported once, at its earliest position.
+function announcePositions(stage: QueueStage) {
+  const seen = new Set<string>();
+  stages[stage].pending.forEach((task, index) => {
+    if (seen.has(task.jobId)) return;
+    seen.add(task.jobId);
+    task.onQueueChange?.({ stage, position: index + 1 });
+  });
+}
+
+function drain(stage: QueueStage) {
+  const state = stages[stage];
+
+  while (state.active < getConcurrency(stage) && state.pending.length > 0) {
+    const task = state.pending.shift()!;
+    state.active++;
+
+    if (!state.pending.some(t => t.jobId === task.jobId)) {
+      task.onQueueChange?.(undefined);
+    }
+    task.start();
+  }
+
+  announcePositions(stage);
+}
+
+export interface QueueOptions {
+  onQueueChange?: (position: QueuePosition | undefined) => void;
+  // Aborting drops the task from the line if it hasn't started yet; once it has,
+  // the task is expected to honour the signal itself.
+  signal?: AbortSignal;
+}
+
+// Runs `task` once a slot in `stage` is free. Tasks start in the order they
+// were submitted, regardless of which job they belong to.
+export function runQueued<T>(
+  stage: QueueStage,
+  jobId: string,
+  task: () => Promise<T>,
+  { onQueueChange, signal }: QueueOptions = {}
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const state = stages[stage];
+
+    const onAbort = () => {
+      const index = state.pending.indexOf(pendingTask);
+      if (index === -1) return;
+
+      state.pending.splice(index, 1);
+      onQueueChange?.(undefined);
+      announcePositions(stage);
+      reject(signal!.reason);
+    };
+
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          state.active--;
+          drain(stage);
+        });
+    };
+
+    const pendingTask: PendingTask = { jobId, start, onQueueChange };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    state.pending.push(pendingTask);
+    drain(stage);
+  });
+}
@@ -0,0 +1,307 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs';
+import { ClipFormat, ReframeMode, TranscriptSegment, ViralMoment } from '@/types';
+import { buildLayoutGraph, extractFrames, getVideoDimensions, OUTPUT_SIZES } from '@/lib/videoProcessor';
+import { parseSubjectDetections } from '@/lib/validation';
+import { TEMP_DIR } from '@/lib/paths';
+
+const execFileAsync = promisify(execFile);
+
+// Sampled frames are handed to the detector at this width, enough for a face
+// model to find people in a wide shot
+const DETECTION_WIDTH = 480;
+// The crop holds still until the subject drifts this far, as a share of the
+// frame width, and never pans faster than MAX_PAN_SPEED widths per second
+const DEAD_ZONE = 0.05;
+const MAX_PAN_SPEED = 0.25;
+const SMOOTHING = 0.3;
+// 'auto' letterboxes when subjects are found in fewer samples than this, and
+// splits when two subjects are present in at least SPLIT_SHARE of them
+const MIN_TRACKED_SHARE = 0.3;
+const SPLIT_SHARE = 0.6;
+
+// A detected face or subject, in 0..1 frame coordinates from the top left
+export interface SubjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score?: number;
+}
+
+// The horizontal centres (0..1) of the subjects in one sampled frame,
+// most salient first
+export interface SubjectObservation {
+  time: number;
+  subjects: { x: number; weight: number }[];
+}
+
+export interface ReframeConfig {
+  // Frames sampled per second of the clip
+  sampleFps: number;
+  // External face detector executable, run with the frames directory as its
+  // only argument. It prints JSON mapping each frame file name to its
+  // SubjectBox list. Without it nothing is tracked.
+  detectorCommand?: string;
+}
+
+export function getReframeConfig(): ReframeConfig {
+  return {
+    sampleFps: parseFloat(process.env.REFRAME_SAMPLE_FPS || '') || 2,
+    detectorCommand: process.env.REFRAME_DETECTOR_COMMAND || undefined,
+  };
+}
+
+export interface ReframePlan {
+  mode: Exclude<ReframeMode, 'auto'>;
+  // Produces `[v]` from `[0:v]`; absent for the default centre crop
+  filterGraph?: string;
+}
+
+async function runDetector(
+  command: string,
+  framesDir: string,
+  fps: number,
+  signal: AbortSignal
+): Promise<SubjectObservation[]> {
+  const { stdout } = await execFileAsync(command, [framesDir], { signal, maxBuffer: 16 * 1024 * 1024 });
+  const detections = parseSubjectDetections(JSON.parse(stdout));
+
+  return fs.readdirSync(framesDir).filter(file => file.endsWith('.jpg')).sort().map((file, index) => ({
+    time: index / fps,
+    subjects: (detections[file] || [])
+      .map(box => ({ x: box.x + box.width / 2, weight: box.width * box.height * (box.score ?? 1) }))
+      .sort((a, b) => b.weight - a.weight),
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// One crop centre per sample. Two subjects close enough to share the crop are
+// framed together; otherwise the crop stays on whoever it was following
+// unless someone else is clearly more prominent.
+function followSubjects(observations: SubjectObservation[], cropFraction: number): (number | undefined)[] {
+  let current: number | undefined;
+
+  return observations.map(({ subjects }) => {
+    if (subjects.length === 0) return undefined;
+
+    if (subjects.length > 1 && Math.abs(subjects[0].x - subjects[1].x) < cropFraction * 0.8) {
+      current = (subjects[0].x + subjects[1].x) / 2;
+      return current;
+    }
+
+    const previous = current;
+    const nearby = previous === undefined
+      ? undefined
+      : subjects.find(s => Math.abs(s.x - previous) < DEAD_ZONE * 2 && s.weight >= subjects[0].weight * 0.6);
+    current = (nearby ?? subjects[0]).x;
+    return current;
+  });
+}
+
+export interface CropMove {
+  start: number;
+  duration: number;
+  // Change in crop centre over the move, as a share of the frame width
+  shift: number;
+}
+
+export interface CropPath {
+  initial: number;
+  moves: CropMove[];
+}
+
+// Turns per-sample subject positions into a crop centre that holds still,
+// ignores jitter and pans at a bounded speed: gaps are filled, outliers are
+// removed with a median filter, the result is smoothed forwards and
+// backwards, and only drifts past the dead zone become moves.
+export function buildCropPath(
+  observations: SubjectObservation[],
+  cropFraction: number,
+  fps: number
+): CropPath {
+  const half = cropFraction / 2;
+  const clamp = (x: number) => Math.min(1 - half, Math.max(half, x));
+
+  const followed = followSubjects(observations, cropFraction);
+  const firstSeen = followed.find(x => x !== undefined) ?? 0.5;
+  let last = firstSeen;
+  const filled = followed.map(x => (last = x ?? last));
+
+  const filtered = filled.map((_, i) => median(filled.slice(Math.max(0, i - 2), i + 3)));
+
+  const smoothed = [...filtered];
+  for (let i = 1; i < smoothed.length; i++) smoothed[i] = smoothed[i - 1] + SMOOTHING * (smoothed[i] - smoothed[i - 1]);
+  for (let i = smoothed.length - 2; i >= 0; i--) smoothed[i] = smoothed[i + 1] + SMOOTHING * (smoothed[i] - smoothed[i + 1]);
+
+  const initial = clamp(smoothed[0] ?? 0.5);
+  const moves: CropMove[] = [];
+  let position = initial;
+  let free = 0;
+
+  smoothed.forEach((value, i) => {
+    const target = clamp(value);
+    if (Math.abs(target - position) < DEAD_ZONE) return;
+
+    const start = Math.max(i / fps, free);
+    const shift = target - position;
+    const duration = Math.max(1 / fps, Math.abs(shift) / MAX_PAN_SPEED);
+    position = target;
+
+    // Steps of one drift in the same direction become a single pan
+    const previous = moves[moves.length - 1];
+    if (previous && start <= free + 1 / fps && Math.sign(previous.shift) === Math.sign(shift)) {
+      previous.shift += shift;
+      previous.duration = Math.max(start + duration - previous.start, Math.abs(previous.shift) / MAX_PAN_SPEED);
+      free = previous.start + previous.duration;
+      return;
+    }
+
+    moves.push({ start, duration, shift });
+    free = start + duration;
+  });
+
+  return { initial, moves };
+}
+
+function even(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// The crop's left edge as an ffmpeg expression of `t`, in source pixels. Each
+// move ramps linearly over its duration.
+export function cropExpression(cropPath: CropPath, sourceWidth: number, cropWidth: number): string {
+  const left = round(cropPath.initial * sourceWidth - cropWidth / 2);
+  const terms = cropPath.moves.map(move => {
+    const rate = round((move.shift * sourceWidth) / move.duration);
+    return `${rate}*clip(t-${round(move.start)},0,${round(move.duration)})`;
+  });
+  return [left, ...terms].join('+').replace(/\+-/g, '-');
+}
+
+function trackGraph(cropPath: CropPath, sourceWidth: number, sourceHeight: number, format: ClipFormat): string {
+  const output = OUTPUT_SIZES[format];
+  const cropWidth = Math.min(sourceWidth, even((sourceHeight * output.width) / output.height));
+  const x = cropExpression(cropPath, sourceWidth, cropWidth);
+  return `[0:v]crop=w=${cropWidth}:h=${sourceHeight}:x='${x}':y=0,scale=${output.width}:${output.height}[v]`;
+}
+
+// Two speakers one above the other, each in half of a 9:16 frame
+function splitGraph(left: number, right: number, sourceWidth: number, sourceHeight: number): string {
+  const half = { width: OUTPUT_SIZES['9:16'].width, height: OUTPUT_SIZES['9:16'].height / 2 };
+  const cropWidth = Math.min(sourceWidth, even((sourceHeight * half.width) / half.height));
+  const cropLeft = (centre: number) =>
+    Math.round(Math.min(sourceWidth - cropWidth, Math.max(0, centre * sourceWidth - cropWidth / 2)));
+
+  return `[0:v]split=2[a][b];` +
+    `[a]crop=${cropWidth}:${sourceHeight}:${cropLeft(left)}:0,scale=${half.width}:${half.height}[top];` +
+    `[b]crop=${cropWidth}:${sourceHeight}:${cropLeft(right)}:0,scale=${half.width}:${half.height}[bottom];` +
+    `[top][bottom]vstack[v]`;
+}
+
+function speakerCount(segments: TranscriptSegment[], moment: ViralMoment): number {
+  const speakers = segments
+    .filter(s => s.speaker && s.end > moment.start && s.start < moment.end)
+    .map(s => s.speaker);
+  return new Set(speakers).size;
+}
+
+// Chooses how to frame the clip from what was sampled, then builds the graph
+export function chooseFraming(
+  observations: SubjectObservation[],
+  requested: Exclude<ReframeMode, 'auto' | 'blur' | 'center'> | 'auto',
+  format: ClipFormat,
+  source: { width: number; height: number },
+  fps: number,
+  speakers: number
+): ReframePlan {
+  const output = OUTPUT_SIZES[format];
+  const cropFraction = Math.min(1, (source.height * output.width) / output.height / source.width);
+
+  const seen = observations.filter(o => o.subjects.length > 0);
+  const pairs = observations.filter(o => o.subjects.length > 1);
+  const apart = pairs.filter(o => Math.abs(o.subjects[0].x - o.subjects[1].x) >= cropFraction * 0.8);
+
+  if (requested === 'auto' && seen.length < observations.length * MIN_TRACKED_SHARE) {
+    return { mode: 'blur', filterGraph: buildLayoutGraph('fit-blur', format) };
+  }
+
+  const wantsSplit = requested === 'split' ||
+    (requested === 'auto' && apart.length >= observations.length * SPLIT_SHARE && speakers !== 1);
+  if (wantsSplit && format === '9:16') {
+    const lefts = apart.map(o => Math.min(o.subjects[0].x, o.subjects[1].x));
+    const rights = apart.map(o => Math.max(o.subjects[0].x, o.subjects[1].x));
+    const left = lefts.length ? median(lefts) : 0.25;
+    const right = rights.length ? median(rights) : 0.75;
+    return { mode: 'split', filterGraph: splitGraph(left, right, source.width, source.height) };
+  }
+
+  // Nothing to follow: the plain centre crop does the same job
+  if (seen.length === 0) return { mode: 'center' };
+
+  const cropPath = buildCropPath(observations, cropFraction, fps);
+  return { mode: 'track', filterGraph: trackGraph(cropPath, source.width, source.height, format) };
+}
+
+// Plans how the 'crop' layout fits a wider source into the format. Returns
+// undefined when the source is no wider than the format. Subjects come only
+// from REFRAME_DETECTOR_COMMAND; without it every mode but 'blur' keeps the
+// plain centre crop, as do sampling or detection failures.
+export async function planReframe(
+  clipId: string,
+  videoPath: string,
+  moment: ViralMoment,
+  format: ClipFormat,
+  mode: ReframeMode,
+  segments: TranscriptSegment[],
+  signal: AbortSignal,
+  config: ReframeConfig = getReframeConfig()
+): Promise<ReframePlan | undefined> {
+  if (mode === 'center') return { mode: 'center' };
+  if (mode === 'blur') return { mode: 'blur', filterGraph: buildLayoutGraph('fit-blur', format) };
+
+  const framesDir = path.join(TEMP_DIR, `${clipId}_frames`);
+  try {
+    const source = await getVideoDimensions(videoPath, signal);
+    const output = OUTPUT_SIZES[format];
+    if (source.width * output.height <= source.height * output.width) return undefined;
+
+    if (!config.detectorCommand) {
+      if (mode !== 'auto') console.warn(`Framing '${mode}' needs REFRAME_DETECTOR_COMMAND, using a centre crop`);
+      return { mode: 'center' };
+    }
+
+    fs.mkdirSync(framesDir, { recursive: true });
+    const fps = config.sampleFps;
+    await extractFrames(
+      videoPath,
+      path.join(framesDir, 'frame_%04d.jpg'),
+      moment.start,
+      moment.end - moment.start,
+      fps,
+      DETECTION_WIDTH,
+      signal
+    );
+
+    const observations = await runDetector(config.detectorCommand, framesDir, fps, signal);
+    if (observations.length === 0) return { mode: 'center' };
+
+    return chooseFraming(observations, mode, format, source, fps, speakerCount(segments, moment));
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Reframing failed, using a centre crop:', error);
+    return { mode: 'center' };
+  } finally {
+    fs.rmSync(framesDir, { recursive: true, force: true });
+  }
+}
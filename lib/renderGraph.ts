@@ -0,0 +1,81 @@
+import { ClipFormat } from '@/types';
+import { OUTPUT_SIZES } from '@/lib/videoProcessor';
+import { escapeFilterValue, runFFmpeg, FFmpegProgress } from '@/lib/ffmpeg';
+
+// The zoom is stepped once per frame, so the frame rate is pinned first
+const ZOOM_FPS = 30;
+const MAX_ZOOM = 1.5;
+
+// Everything one output file needs, rendered from the source in one encode
+export interface RenderSpec {
+  videoPath: string;
+  outputPath: string;
+  start: number;
+  end: number;
+  format: ClipFormat;
+  // Fits `[0:v]` to the format as `[v]`: a layout or reframe graph
+  frameGraph: string;
+  // Slow zoom-in rate, in zoom per second
+  zoomPan?: number;
+  // ASS captions, burned after the zoom so they stay in place
+  subtitlePath?: string;
+}
+
+// The whole filter chain for `spec`, ending in `[out]`
+export function buildRenderGraph(spec: RenderSpec): string {
+  const { width, height } = OUTPUT_SIZES[spec.format];
+  const stages = [spec.frameGraph];
+  let label = 'v';
+
+  if (spec.zoomPan) {
+    const step = spec.zoomPan / ZOOM_FPS;
+    stages.push(
+      `[${label}]fps=${ZOOM_FPS},zoompan=z='min(zoom+${step},${MAX_ZOOM})':d=1:` +
+      `x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=${width}x${height}:fps=${ZOOM_FPS}[zoomed]`
+    );
+    label = 'zoomed';
+  }
+
+  if (spec.subtitlePath) {
+    stages.push(`[${label}]subtitles=filename=${escapeFilterValue(spec.subtitlePath)}[captioned]`);
+    label = 'captioned';
+  }
+
+  stages.push(`[${label}]format=yuv420p[out]`);
+  return stages.join(';');
+}
+
+// ffmpeg arguments for `spec`, input and output included
+export function buildRenderArgs(spec: RenderSpec): string[] {
+  return [
+    '-ss', `${spec.start}`,
+    '-i', spec.videoPath,
+    '-t', `${spec.end - spec.start}`,
+    '-filter_complex', buildRenderGraph(spec),
+    '-map', '[out]',
+    '-map', '0:a?',
+    '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
+    '-c:a', 'aac', '-b:a', '128k',
+    '-movflags', '+faststart',
+    spec.outputPath,
+    '-y',
+  ];
+}
+
+// Cuts, frames, zooms and captions one clip with a single encode. A failed
+// zoom, the most fragile stage, is dropped and the render retried without it.
+export async function renderClipVideo(
+  spec: RenderSpec,
+  signal?: AbortSignal,
+  onProgress?: (progress: FFmpegProgress) => void
+): Promise<void> {
+  const options = { signal, onProgress, duration: spec.end - spec.start };
+  try {
+    await runFFmpeg(buildRenderArgs(spec), options);
+  } catch (error) {
+    if (signal?.aborted || !spec.zoomPan) throw error;
+
+    console.warn('Zoom/pan effect failed, rendering without it:', error);
+    await runFFmpeg(buildRenderArgs({ ...spec, zoomPan: undefined }), options);
+  }
+}
@@ -0,0 +1,232 @@
+import fs from 'fs';
+import path from 'path';
+import { jobs, clipJobs } from '@/lib/storage';
+import { UPLOADS_DIR, TEMP_DIR, CLIPS_DIR } from '@/lib/paths';
+import { isTerminalStatus } from '@/lib/jobEvents';
+import { ClipJob, IngestJob } from '@/types';
+
+const HOUR = 60 * 60 * 1000;
+const MEGABYTE = 1024 * 1024;
+
+// Files younger than this are never treated as orphans: uploads are written
+// before their job record, and clips before they are added to their job.
+const ORPHAN_GRACE_PERIOD = HOUR;
+
+export interface RetentionConfig {
+  ttlHours: number;
+  maxDiskMb: number;
+  sweepIntervalMinutes: number;
+}
+
+export interface JobDiskUsage {
+  jobId: string;
+  kind: 'ingest' | 'clips';
+  status: IngestJob['status'];
+  updatedAt?: string;
+  bytes: number;
+  files: string[];
+}
+
+export interface DiskUsageReport {
+  totalBytes: number;
+  jobs: JobDiskUsage[];
+  orphans: { bytes: number; files: string[] };
+}
+
+export interface GarbageCollectionReport {
+  evictedJobs: string[];
+  removedOrphans: string[];
+  freedBytes: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getRetentionConfig(): RetentionConfig {
+  return {
+    ttlHours: readNumber('RETENTION_TTL_HOURS', 72),
+    // 0 disables the quota
+    maxDiskMb: readNumber('RETENTION_MAX_DISK_MB', 0),
+    sweepIntervalMinutes: readNumber('RETENTION_SWEEP_INTERVAL_MINUTES', 30),
+  };
+}
+
+interface ArtifactFile {
+  path: string;
+  bytes: number;
+  modifiedAt: number;
+}
+
+function listArtifacts(): ArtifactFile[] {
+  const files: ArtifactFile[] = [];
+
+  for (const dir of [UPLOADS_DIR, TEMP_DIR, CLIPS_DIR]) {
+    if (!fs.existsSync(dir)) continue;
+
+    for (const name of fs.readdirSync(dir)) {
+      const filePath = path.join(dir, name);
+      const stat = fs.statSync(filePath);
+      if (stat.isFile()) {
+        files.push({ path: filePath, bytes: stat.size, modifiedAt: stat.mtimeMs });
+      }
+    }
+  }
+
+  return files;
+}
+
+// Artifacts are named after the id that owns them: uploads and scratch audio
+// after the ingest job, rendered clips and thumbnails after the clip.
+function artifactPrefixes(job: IngestJob | ClipJob, kind: JobDiskUsage['kind']): string[] {
+  if (kind === 'ingest') return [job.id];
+
+  const clipJob = job as ClipJob;
+  const clips = clipJob.status === 'completed' ? clipJob.result : clipJob.clips || [];
+  return clips.map(clip => clip.id);
+}
+
+export function getDiskUsage(): DiskUsageReport {
+  const artifacts = listArtifacts();
+  const claimed = new Set<string>();
+
+  const usage = (job: IngestJob | ClipJob, kind: JobDiskUsage['kind']): JobDiskUsage => {
+    const prefixes = artifactPrefixes(job, kind);
+    const owned = artifacts.filter(file =>
+      prefixes.some(prefix => path.basename(file.path).startsWith(prefix))
+    );
+    owned.forEach(file => claimed.add(file.path));
+
+    return {
+      jobId: job.id,
+      kind,
+      status: job.status,
+      updatedAt: job.updatedAt,
+      bytes: owned.reduce((sum, file) => sum + file.bytes, 0),
+      files: owned.map(file => file.path),
+    };
+  };
+
+  const jobUsage = [
+    ...jobs.list().map(job => usage(job, 'ingest')),
+    ...clipJobs.list().map(job => usage(job, 'clips')),
+  ];
+
+  const orphans = artifacts.filter(file => !claimed.has(file.path));
+
+  return {
+    totalBytes: artifacts.reduce((sum, file) => sum + file.bytes, 0),
+    jobs: jobUsage.sort((a, b) => b.bytes - a.bytes),
+    orphans: {
+      bytes: orphans.reduce((sum, file) => sum + file.bytes, 0),
+      files: orphans.map(file => file.path),
+    },
+  };
+}
+
+function evict(entry: JobDiskUsage) {
+  for (const file of entry.files) {
+    fs.rmSync(file, { force: true });
+  }
+
+  if (entry.kind === 'ingest') {
+    jobs.delete(entry.jobId);
+  } else {
+    clipJobs.delete(entry.jobId);
+  }
+}
+
+function lastActivity(entry: JobDiskUsage): number {
+  return entry.updatedAt ? Date.parse(entry.updatedAt) : 0;
+}
+
+// Removes expired jobs and their files, then orphaned files, then the least
+// recently active finished jobs until usage fits the disk budget. Running jobs
+// are never evicted.
+export function runGarbageCollection(
+  config: RetentionConfig = getRetentionConfig(),
+  now: number = Date.now()
+): GarbageCollectionReport {
+  const report: GarbageCollectionReport = { evictedJobs: [], removedOrphans: [], freedBytes: 0 };
+  const usage = getDiskUsage();
+  let remainingBytes = usage.totalBytes;
+
+  // Source videos still being cut into clips stay put even if their ingest job has expired
+  const sourcesInUse = new Set(
+    clipJobs.list()
+      .filter(job => !isTerminalStatus(job.status))
+      .map(job => job.input.ingestJobId)
+  );
+
+  const evictable = usage.jobs
+    .filter(entry => isTerminalStatus(entry.status) && !sourcesInUse.has(entry.jobId))
+    .sort((a, b) => lastActivity(a) - lastActivity(b));
+
+  const ttl = config.ttlHours * HOUR;
+  const kept: JobDiskUsage[] = [];
+
+  for (const entry of evictable) {
+    if (config.ttlHours > 0 && now - lastActivity(entry) > ttl) {
+      evict(entry);
+      report.evictedJobs.push(entry.jobId);
+      report.freedBytes += entry.bytes;
+      remainingBytes -= entry.bytes;
+    } else {
+      kept.push(entry);
+    }
+  }
+
+  for (const file of usage.orphans.files) {
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (!stat || now - stat.mtimeMs < ORPHAN_GRACE_PERIOD) continue;
+
+    fs.rmSync(file, { force: true });
+    report.removedOrphans.push(file);
+    report.freedBytes += stat.size;
+    remainingBytes -= stat.size;
+  }
+
+  if (config.maxDiskMb > 0) {
+    const budget = config.maxDiskMb * MEGABYTE;
+
+    for (const entry of kept) {
+      if (remainingBytes <= budget) break;
+      if (entry.bytes === 0) continue;
+
+      evict(entry);
+      report.evictedJobs.push(entry.jobId);
+      report.freedBytes += entry.bytes;
+      remainingBytes -= entry.bytes;
+    }
+  }
+
+  return report;
+}
+
+// Sweeps on an interval for the life of the server process. Safe to call from
+// every module that produces artifacts; only the first call starts the timer.
+const globalForRetention = globalThis as unknown as { retentionTimer?: NodeJS.Timeout };
+
+export function startRetentionSweeper(): void {
+  if (globalForRetention.retentionTimer) return;
+
+  const { sweepIntervalMinutes } = getRetentionConfig();
+  if (sweepIntervalMinutes <= 0) return;
+
+  globalForRetention.retentionTimer = setInterval(() => {
+    try {
+      const report = runGarbageCollection();
+      if (report.evictedJobs.length > 0 || report.removedOrphans.length > 0) {
+        console.log(
+          `Retention sweep freed ${(report.freedBytes / MEGABYTE).toFixed(1)} MB ` +
+          `(${report.evictedJobs.length} jobs, ${report.removedOrphans.length} orphaned files)`
+        );
+      }
+    } catch (error) {
+      console.error('Retention sweep error:', error);
+    }
+  }, sweepIntervalMinutes * 60 * 1000);
+
+  globalForRetention.retentionTimer.unref();
+}
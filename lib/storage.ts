@@ -1,3 +1,149 @@
-// In-memory job storage (use Redis or database in production)
-export const jobs = new Map<string, any>();
-export const clipJobs = new Map<string, any>();
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from '@/lib/paths';
+import { parseIngestJob, parseClipJob } from '@/lib/validation';
+import { publishJobEvent } from '@/lib/jobEvents';
+import { IngestJob, ClipJob } from '@/types';
+
+export interface StoredJob {
+  id: string;
+  status: string;
+}
+
+export interface JobStore<T extends StoredJob> {
+  get(id: string): T | undefined;
+  set(id: string, job: T): void;
+  update(id: string, patch: Partial<T>): T | undefined;
+  delete(id: string): void;
+  list(): T[];
+}
+
+// Statuses that mean a pipeline was still running when the record was written
+const ACTIVE_STATUSES = ['pending', 'processing'];
+
+export function createMemoryJobStore<T extends StoredJob>(): JobStore<T> {
+  const entries = new Map<string, T>();
+
+  return {
+    get: (id) => entries.get(id),
+    set: (id, job) => {
+      entries.set(id, job);
+    },
+    update: (id, patch) => {
+      const current = entries.get(id);
+      if (!current) return undefined;
+      const next = { ...current, ...patch };
+      entries.set(id, next);
+      return next;
+    },
+    delete: (id) => {
+      entries.delete(id);
+    },
+    list: () => Array.from(entries.values()),
+  };
+}
+
+// One JSON file per job, cached in memory. Writes go through a temp file and a
+// rename so a crash mid-write never leaves a truncated record behind.
+// Records read back from disk are run through `parse` and skipped if malformed.
+export function createFileJobStore<T extends StoredJob>(
+  dirPath: string,
+  parse: (value: unknown) => T
+): JobStore<T> {
+  const cache = createMemoryJobStore<T>();
+  fs.mkdirSync(dirPath, { recursive: true });
+
+  const filePath = (id: string) => path.join(dirPath, `${encodeURIComponent(id)}.json`);
+
+  const persist = (job: T) => {
+    const target = filePath(job.id);
+    const tmp = `${target}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(job));
+    fs.renameSync(tmp, target);
+  };
+
+  for (const file of fs.readdirSync(dirPath)) {
+    if (!file.endsWith('.json')) continue;
+
+    try {
+      const job = parse(JSON.parse(fs.readFileSync(path.join(dirPath, file), 'utf-8')));
+
+      // Anything that was mid-run when the server went down can't still be running
+      if (ACTIVE_STATUSES.includes(job.status)) {
+        const interrupted: T = {
+          ...job,
+          status: 'interrupted',
+          currentStep: 'Interrupted by server restart',
+        };
+        persist(interrupted);
+        cache.set(job.id, interrupted);
+      } else {
+        cache.set(job.id, job);
+      }
+    } catch (error) {
+      console.error(`Skipping unreadable job file ${file}:`, error);
+    }
+  }
+
+  return {
+    get: cache.get,
+    set: (id, job) => {
+      cache.set(id, job);
+      persist(job);
+    },
+    update: (id, patch) => {
+      const next = cache.update(id, patch);
+      if (next) persist(next);
+      return next;
+    },
+    delete: (id) => {
+      cache.delete(id);
+      if (fs.existsSync(filePath(id))) {
+        fs.unlinkSync(filePath(id));
+      }
+    },
+    list: cache.list,
+  };
+}
+
+// Stamps every write with createdAt/updatedAt (retention ages jobs by these)
+// and publishes it as a progress event for /api/jobs/[jobId]/events.
+function withTrackedWrites<T extends IngestJob | ClipJob>(store: JobStore<T>): JobStore<T> {
+  return {
+    ...store,
+    set: (id, job) => {
+      const now = new Date().toISOString();
+      const stamped = { ...job, createdAt: job.createdAt || now, updatedAt: now };
+      store.set(id, stamped);
+      publishJobEvent(id, { type: 'progress', job: stamped });
+    },
+    update: (id, patch) => {
+      const next = store.update(id, { ...patch, updatedAt: new Date().toISOString() });
+      if (next) publishJobEvent(id, { type: 'progress', job: next });
+      return next;
+    },
+  };
+}
+
+function createJobStore<T extends IngestJob | ClipJob>(name: string, parse: (value: unknown) => T): JobStore<T> {
+  const store = process.env.JOB_STORE === 'memory'
+    ? createMemoryJobStore<T>()
+    : createFileJobStore<T>(path.join(DATA_DIR, name), parse);
+  return withTrackedWrites(store);
+}
+
+// Keep the stores on globalThis so Next.js hot reloads reuse them instead of
+// re-reading the files and marking still-running jobs as interrupted.
+const globalForStorage = globalThis as unknown as {
+  jobStores?: { jobs: JobStore<IngestJob>; clipJobs: JobStore<ClipJob> };
+};
+
+if (!globalForStorage.jobStores) {
+  globalForStorage.jobStores = {
+    jobs: createJobStore('jobs', parseIngestJob),
+    clipJobs: createJobStore('clip-jobs', parseClipJob),
+  };
+}
+
+export const jobs = globalForStorage.jobStores.jobs;
+export const clipJobs = globalForStorage.jobStores.clipJobs;
@@ -1,59 +1,78 @@
-import OpenAI from 'openai';
-import { TranscriptSegment } from '@/types';
-import fs from 'fs';
+import { Transcript } from '@/types';
+import { TEMP_DIR } from '@/lib/paths';
+import {
+  TranscriptionProvider,
+  LocalWhisperEngine,
+  createOpenAITranscriptionProvider,
+  createLocalTranscriptionProvider,
+  createFixtureTranscriptionProvider
+} from '@/lib/transcriptionProviders';
+import { transcribeInChunks, getChunkingConfig } from '@/lib/chunkedTranscription';
+import { normalizeLanguage } from '@/lib/languages';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'sk-placeholder',
-});
+// Picks the backend from TRANSCRIPTION_PROVIDER: "openai" (default), "local"
+// for a whisper.cpp / faster-whisper CLI, or "fixture" for a canned transcript
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const provider = process.env.TRANSCRIPTION_PROVIDER || 'openai';
 
-export async function transcribeVideo(audioPath: string): Promise<TranscriptSegment[]> {
-  try {
-    const audioFile = fs.createReadStream(audioPath);
-
-    const response = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      response_format: 'verbose_json',
-      timestamp_granularities: ['segment'],
-    });
-
-    const segments: TranscriptSegment[] = [];
-
-    if (response.segments) {
-      for (const segment of response.segments) {
-        segments.push({
-          text: segment.text,
-          start: segment.start,
-          end: segment.end,
-          confidence: segment.avg_logprob ? Math.exp(segment.avg_logprob) : undefined,
-        });
+  switch (provider) {
+    case 'openai':
+      return createOpenAITranscriptionProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_TRANSCRIPTION_MODEL,
+      });
+    case 'local': {
+      const engine = (process.env.LOCAL_WHISPER_ENGINE || 'whisper.cpp') as LocalWhisperEngine;
+      if (engine !== 'whisper.cpp' && engine !== 'faster-whisper') {
+        throw new Error(`Unknown LOCAL_WHISPER_ENGINE "${engine}"`);
+      }
+      if (!process.env.LOCAL_WHISPER_MODEL) {
+        throw new Error('LOCAL_WHISPER_MODEL must be set for the local transcription provider');
       }
-    } else {
-      // Fallback if no segments
-      segments.push({
-        text: response.text,
-        start: 0,
-        end: 0,
+
+      return createLocalTranscriptionProvider({
+        engine,
+        command: process.env.LOCAL_WHISPER_COMMAND || (engine === 'whisper.cpp' ? 'whisper-cli' : 'whisper-ctranslate2'),
+        model: process.env.LOCAL_WHISPER_MODEL,
+        language: process.env.LOCAL_WHISPER_LANGUAGE || undefined,
+        threads: parseInt(process.env.LOCAL_WHISPER_THREADS || '', 10) || undefined,
+        outputDir: TEMP_DIR,
       });
     }
+    case 'fixture':
+      return createFixtureTranscriptionProvider(
+        process.env.TRANSCRIPTION_FIXTURE_PATH || undefined,
+        process.env.TRANSCRIPTION_FIXTURE_LANGUAGE || undefined
+      );
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${provider}"`);
+  }
+}
 
-    return segments;
+// Recordings too large for the provider are transcribed in chunks; see
+// lib/chunkedTranscription.ts
+export async function transcribeVideo(audioPath: string, signal?: AbortSignal): Promise<Transcript> {
+  try {
+    return await transcribeInChunks(getTranscriptionProvider(), audioPath, getChunkingConfig(), signal);
   } catch (error) {
+    if (signal?.aborted) throw error;
+
     console.error('Transcription error:', error);
     throw new Error(`Failed to transcribe: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-export async function getYouTubeTranscript(videoId: string): Promise<TranscriptSegment[]> {
+export async function getYouTubeTranscript(videoId: string): Promise<Transcript> {
   try {
     const { YoutubeTranscript } = await import('youtube-transcript');
     const transcript = await YoutubeTranscript.fetchTranscript(videoId);
 
-    return transcript.map((item: any) => ({
+    const segments = transcript.map((item: any) => ({
       text: item.text,
       start: item.offset / 1000,
       end: (item.offset + item.duration) / 1000,
     }));
+    return { segments, language: normalizeLanguage(transcript[0]?.lang) };
   } catch (error) {
     console.error('YouTube transcript error:', error);
     throw new Error('Failed to fetch YouTube transcript');
@@ -0,0 +1,258 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs';
+import { Transcript, TranscriptSegment, TranscriptWord } from '@/types';
+import { parseTranscriptSegment } from '@/lib/validation';
+import { normalizeLanguage } from '@/lib/languages';
+import { getAIClient } from '@/lib/aiClient';
+
+const execFileAsync = promisify(execFile);
+
+export interface TranscriptionProvider {
+  name: string;
+  // Largest audio file the backend accepts in one call; longer recordings are
+  // split by transcribeVideo. Unset means no limit.
+  maxFileBytes?: number;
+  transcribe(audioPath: string, signal?: AbortSignal): Promise<Transcript>;
+}
+
+// The transcription endpoint rejects uploads over 25 MB
+const OPENAI_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+export interface OpenAITranscriptionOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+export function createOpenAITranscriptionProvider(options: OpenAITranscriptionOptions = {}): TranscriptionProvider {
+  const model = options.model || 'whisper-1';
+
+  return {
+    name: 'openai',
+    maxFileBytes: OPENAI_MAX_FILE_BYTES,
+    transcribe: async (audioPath, signal) => {
+      if (!options.apiKey) {
+        throw new Error('OPENAI_API_KEY is not set; configure it or pick another TRANSCRIPTION_PROVIDER');
+      }
+      const response = await getAIClient({ apiKey: options.apiKey }).audio.transcriptions.create({
+        file: fs.createReadStream(audioPath),
+        model,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment'],
+      }, { signal });
+
+      const words: TranscriptWord[] = (response.words || []).map(w => ({
+        text: w.word.trim(),
+        start: w.start,
+        end: w.end,
+      }));
+
+      // verbose_json reports the language by name ("english")
+      const language = normalizeLanguage(response.language);
+
+      if (!response.segments) {
+        // Fallback if no segments
+        return { segments: [{ text: response.text, start: 0, end: 0 }], language };
+      }
+
+      const segments = response.segments.map(segment => ({
+        text: segment.text,
+        start: segment.start,
+        end: segment.end,
+        confidence: segment.avg_logprob ? Math.exp(segment.avg_logprob) : undefined,
+        words: wordsWithin(words, segment.start, segment.end),
+      }));
+      return { segments, language };
+    },
+  };
+}
+
+export type LocalWhisperEngine = 'whisper.cpp' | 'faster-whisper';
+
+export interface LocalTranscriptionOptions {
+  engine: LocalWhisperEngine;
+  // Executable to run, e.g. `whisper-cli` or `whisper-ctranslate2`
+  command: string;
+  // Model file for whisper.cpp, model name or directory for faster-whisper
+  model: string;
+  language?: string;
+  threads?: number;
+  outputDir: string;
+}
+
+// Runs a Whisper-compatible CLI on this machine, so transcription works
+// without network access. Both engines write JSON next to the audio, which is
+// read back and removed.
+export function createLocalTranscriptionProvider(options: LocalTranscriptionOptions): TranscriptionProvider {
+  return {
+    name: `local:${options.engine}`,
+    transcribe: async (audioPath, signal) => {
+      const outputBase = path.join(options.outputDir, `${path.basename(audioPath, path.extname(audioPath))}.transcript`);
+      const jsonPath = options.engine === 'whisper.cpp'
+        ? `${outputBase}.json`
+        : path.join(options.outputDir, `${path.basename(audioPath, path.extname(audioPath))}.json`);
+
+      const args = options.engine === 'whisper.cpp'
+        ? whisperCppArgs(options, audioPath, outputBase)
+        : fasterWhisperArgs(options, audioPath);
+
+      try {
+        await execFileAsync(options.command, args, { signal, maxBuffer: 64 * 1024 * 1024 });
+        const output = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+
+        return options.engine === 'whisper.cpp'
+          ? parseWhisperCppOutput(output)
+          : parseWhisperJsonOutput(output);
+      } finally {
+        if (fs.existsSync(jsonPath)) fs.unlinkSync(jsonPath);
+      }
+    },
+  };
+}
+
+function whisperCppArgs(options: LocalTranscriptionOptions, audioPath: string, outputBase: string): string[] {
+  const args = ['-m', options.model, '-f', audioPath, '-ojf', '-of', outputBase, '-np'];
+  if (options.language) args.push('-l', options.language);
+  if (options.threads) args.push('-t', String(options.threads));
+  return args;
+}
+
+function fasterWhisperArgs(options: LocalTranscriptionOptions, audioPath: string): string[] {
+  const args = [
+    audioPath,
+    '--model', options.model,
+    '--output_format', 'json',
+    '--output_dir', options.outputDir,
+    '--word_timestamps', 'True',
+    '--verbose', 'False',
+  ];
+  if (options.language) args.push('--language', options.language);
+  if (options.threads) args.push('--threads', String(options.threads));
+  return args;
+}
+
+interface WhisperCppToken {
+  text: string;
+  offsets: { from: number; to: number };
+}
+
+interface WhisperCppSegment {
+  text: string;
+  offsets: { from: number; to: number };
+  tokens?: WhisperCppToken[];
+}
+
+// whisper.cpp reports offsets in milliseconds and, with -ojf, sub-word tokens
+// that are merged back into words on leading whitespace
+function parseWhisperCppOutput(output: {
+  result?: { language?: string };
+  transcription?: WhisperCppSegment[];
+}): Transcript {
+  const segments = (output.transcription || []).map(segment => {
+    const words: TranscriptWord[] = [];
+
+    for (const token of segment.tokens || []) {
+      // Special tokens like [_BEG_] and [_TT_150] carry no text
+      if (/^\[_.*\]$/.test(token.text.trim())) continue;
+
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const last = words[words.length - 1];
+
+      if (last && !/^\s/.test(token.text)) {
+        last.text += token.text;
+        last.end = end;
+      } else if (token.text.trim()) {
+        words.push({ text: token.text.trim(), start, end });
+      }
+    }
+
+    return {
+      text: segment.text,
+      start: segment.offsets.from / 1000,
+      end: segment.offsets.to / 1000,
+      words: words.length > 0 ? words : undefined,
+    };
+  });
+
+  return { segments, language: normalizeLanguage(output.result?.language) };
+}
+
+interface WhisperJsonSegment {
+  text: string;
+  start: number;
+  end: number;
+  avg_logprob?: number;
+  words?: { word: string; start: number; end: number }[];
+}
+
+// faster-whisper front ends write the same JSON layout as openai-whisper
+function parseWhisperJsonOutput(output: { language?: string; segments?: WhisperJsonSegment[] }): Transcript {
+  const segments = (output.segments || []).map(segment => ({
+    text: segment.text,
+    start: segment.start,
+    end: segment.end,
+    confidence: segment.avg_logprob ? Math.exp(segment.avg_logprob) : undefined,
+    words: segment.words?.map(w => ({ text: w.word.trim(), start: w.start, end: w.end })),
+  }));
+
+  return { segments, language: normalizeLanguage(output.language) };
+}
+
+// Returns the same transcript for every file: the segments in `fixturePath`
+// when given, otherwise a short built-in English script. Lets the pipeline run
+// end to end in tests and demos without a model.
+export function createFixtureTranscriptionProvider(fixturePath?: string, language = 'en'): TranscriptionProvider {
+  return {
+    name: 'fixture',
+    transcribe: async (_audioPath, signal) => {
+      signal?.throwIfAborted();
+
+      if (!fixturePath) return { segments: FIXTURE_SEGMENTS.map(withEvenWordTimings), language };
+
+      const value = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+      if (!Array.isArray(value)) {
+        throw new Error(`Transcript fixture ${fixturePath} must be an array of segments`);
+      }
+      const segments = value.map((segment, i) => parseTranscriptSegment(segment, `fixture[${i}]`));
+      return { segments, language };
+    },
+  };
+}
+
+const FIXTURE_SEGMENTS: TranscriptSegment[] = [
+  { text: 'Here is the secret nobody tells you about starting out.', start: 0, end: 4.5 },
+  { text: 'I was shocked when I first saw the numbers.', start: 4.5, end: 8 },
+  { text: 'Most people quit right before it starts to work.', start: 8, end: 12 },
+  { text: 'So here is what you should do instead.', start: 12, end: 15 },
+  { text: 'Write down one thing you learned every single day.', start: 15, end: 19.5 },
+  { text: 'It sounds simple, but it changed everything for me.', start: 19.5, end: 24 },
+  { text: 'Honestly, the results were incredible.', start: 24, end: 27 },
+  { text: 'Try it for a week and tell me what happens.', start: 27, end: 31 },
+];
+
+function withEvenWordTimings(segment: TranscriptSegment): TranscriptSegment {
+  const texts = segment.text.split(/\s+/).filter(Boolean);
+  const step = (segment.end - segment.start) / texts.length;
+
+  return {
+    ...segment,
+    words: texts.map((text, i) => ({
+      text,
+      start: segment.start + i * step,
+      end: segment.start + (i + 1) * step,
+    })),
+  };
+}
+
+// Whisper returns words as one flat list; a word belongs to the segment its
+// midpoint falls in
+function wordsWithin(words: TranscriptWord[], start: number, end: number): TranscriptWord[] | undefined {
+  if (words.length === 0) return undefined;
+
+  return words.filter(word => {
+    const midpoint = (word.start + word.end) / 2;
+    return midpoint >= start && midpoint < end;
+  });
+}
@@ -0,0 +1,84 @@
+import { TranscriptSegment } from '@/types';
+import { languageName } from '@/lib/languages';
+import OpenAI from 'openai';
+import { getAIClient, getModelPrice, ModelPrice, UsageTracker } from '@/lib/aiClient';
+
+interface TranslationBackend {
+  client: OpenAI;
+  model: string;
+  price?: ModelPrice;
+}
+
+// TRANSLATION_BASE_URL sends translations to an OpenAI-compatible server.
+// Without it they go to the ranking server when RANKING_PROVIDER is
+// "openai-compatible", so a local setup needs no second server, and to OpenAI
+// otherwise.
+export function getTranslationBackend(): TranslationBackend {
+  if (process.env.TRANSLATION_BASE_URL) {
+    if (!process.env.TRANSLATION_MODEL) {
+      throw new Error('TRANSLATION_MODEL must be set when TRANSLATION_BASE_URL is');
+    }
+    return {
+      client: getAIClient({ baseURL: process.env.TRANSLATION_BASE_URL, apiKey: process.env.TRANSLATION_API_KEY }),
+      model: process.env.TRANSLATION_MODEL,
+    };
+  }
+
+  if (process.env.RANKING_PROVIDER === 'openai-compatible') {
+    if (!process.env.RANKING_BASE_URL || !process.env.RANKING_MODEL) {
+      throw new Error('RANKING_BASE_URL and RANKING_MODEL must be set to translate with the openai-compatible ranking server');
+    }
+    return {
+      client: getAIClient({ baseURL: process.env.RANKING_BASE_URL, apiKey: process.env.RANKING_API_KEY }),
+      model: process.env.RANKING_MODEL,
+    };
+  }
+
+  const model = process.env.TRANSLATION_MODEL || 'gpt-4o-mini';
+  return { client: getAIClient(), model, price: getModelPrice(model) };
+}
+
+// Translates each segment's text line by line, keeping its timing and speaker.
+// Word timings don't survive translation, so karaoke captions fall back to
+// spreading each line's duration over its words.
+export async function translateSegments(
+  segments: TranscriptSegment[],
+  sourceLanguage: string | undefined,
+  targetLanguage: string,
+  signal?: AbortSignal,
+  usage?: UsageTracker
+): Promise<TranscriptSegment[]> {
+  if (segments.length === 0) return [];
+
+  const from = sourceLanguage ? languageName(sourceLanguage) : 'the source language';
+  const prompt = `Translate these video caption lines from ${from} to ${languageName(targetLanguage)}.
+Keep each line short enough to read on screen, keep the tone, and do not merge or split lines.
+
+Lines:
+${JSON.stringify(segments.map(segment => segment.text.trim()))}
+
+Return a JSON object {"lines": [...]} with exactly ${segments.length} translated strings in the same order.`;
+
+  const { client, model, price } = getTranslationBackend();
+  const response = await client.chat.completions.create({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    response_format: { type: 'json_object' },
+    temperature: 0.2,
+  }, { signal });
+  usage?.record(response.usage, price);
+
+  const result = JSON.parse(response.choices[0].message.content || '{}');
+  const lines: unknown = result.lines;
+
+  if (!Array.isArray(lines) || lines.length !== segments.length || !lines.every(line => typeof line === 'string')) {
+    throw new Error(`Translation to ${targetLanguage} returned ${Array.isArray(lines) ? lines.length : 'no'} lines for ${segments.length} captions`);
+  }
+
+  return segments.map((segment, i) => ({
+    text: lines[i],
+    start: segment.start,
+    end: segment.end,
+    speaker: segment.speaker,
+  }));
+}
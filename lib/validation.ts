@@ -0,0 +1,491 @@
+import {
+  AIUsage,
+  AudioFeatures,
+  TranscriptWord,
+  TranscriptSegment,
+  ViralMoment,
+  ClipOptions,
+  CaptionStyle,
+  ClipResult,
+  ClipTranslation,
+  DetectionOptions,
+  IngestInput,
+  IngestResult,
+  MomentCopy,
+  MomentSnap,
+  IngestJob,
+  ClipJobInput,
+  ClipJob,
+} from '@/types';
+import { CAPTION_PRESET_NAMES } from '@/lib/captionStyles';
+import { LANGUAGE_CODE_PATTERN } from '@/lib/languages';
+import type { MomentRanking } from '@/lib/momentRanking';
+import type { SubjectBox } from '@/lib/reframe';
+
+export class ValidationError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Invalid ${path}: expected ${expected}`);
+    this.name = 'ValidationError';
+  }
+}
+
+type UnknownRecord = { [key: string]: unknown };
+
+function expectRecord(value: unknown, path: string): UnknownRecord {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(path, 'an object');
+  }
+  return value as UnknownRecord;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new ValidationError(path, 'a string');
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(path, 'a finite number');
+  }
+  return value;
+}
+
+function expectPositiveInteger(value: unknown, path: string): number {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new ValidationError(path, 'a positive integer');
+  }
+  return value as number;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'a boolean');
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, options: readonly T[], path: string): T {
+  if (!options.includes(value as T)) {
+    throw new ValidationError(path, `one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+function expectArray<T>(value: unknown, path: string, parseItem: (item: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) throw new ValidationError(path, 'an array');
+  return value.map((item, index) => parseItem(item, `${path}[${index}]`));
+}
+
+function optional<T>(value: unknown, path: string, parse: (value: unknown, path: string) => T): T | undefined {
+  return value === undefined ? undefined : parse(value, path);
+}
+
+// Drops the fields that were left out, so spreading the result over defaults
+// keeps the defaults
+function definedFields<T extends object>(fields: T): T {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as T;
+}
+
+function parseTranscriptWord(value: unknown, path: string): TranscriptWord {
+  const record = expectRecord(value, path);
+  expectString(record.text, `${path}.text`);
+  expectNumber(record.start, `${path}.start`);
+  expectNumber(record.end, `${path}.end`);
+  return record as unknown as TranscriptWord;
+}
+
+export function parseTranscriptSegment(value: unknown, path = 'segment'): TranscriptSegment {
+  const record = expectRecord(value, path);
+  expectString(record.text, `${path}.text`);
+  expectNumber(record.start, `${path}.start`);
+  expectNumber(record.end, `${path}.end`);
+  optional(record.confidence, `${path}.confidence`, expectNumber);
+  optional(record.words, `${path}.words`, (words, p) => expectArray(words, p, parseTranscriptWord));
+  optional(record.speaker, `${path}.speaker`, expectString);
+  return record as unknown as TranscriptSegment;
+}
+
+export function parseViralMoment(value: unknown, path = 'moment'): ViralMoment {
+  const record = expectRecord(value, path);
+  expectString(record.id, `${path}.id`);
+  expectNumber(record.start, `${path}.start`);
+  expectNumber(record.end, `${path}.end`);
+  expectNumber(record.score, `${path}.score`);
+  expectString(record.reason, `${path}.reason`);
+  expectString(record.text, `${path}.text`);
+  expectArray(record.emotions, `${path}.emotions`, expectString);
+  expectArray(record.keywords, `${path}.keywords`, expectString);
+  optional(record.scoreSource, `${path}.scoreSource`, (v, p) => expectOneOf(v, ['heuristic', 'model'] as const, p));
+  optional(record.heuristicScore, `${path}.heuristicScore`, expectNumber);
+  optional(record.promptVersion, `${path}.promptVersion`, expectString);
+  optional(record.heuristicRange, `${path}.heuristicRange`, (v, p) => {
+    const range = expectRecord(v, p);
+    expectNumber(range.start, `${p}.start`);
+    expectNumber(range.end, `${p}.end`);
+    return range;
+  });
+  optional(record.copy, `${path}.copy`, parseMomentCopy);
+  optional(record.deliverySignals, `${path}.deliverySignals`, (v, p) => expectArray(v, p, expectString));
+  optional(record.snap, `${path}.snap`, parseMomentSnap);
+  return record as unknown as ViralMoment;
+}
+
+function parseMomentSnap(value: unknown, path: string): MomentSnap {
+  const record = expectRecord(value, path);
+  const original = expectRecord(record.original, `${path}.original`);
+  expectNumber(original.start, `${path}.original.start`);
+  expectNumber(original.end, `${path}.original.end`);
+  expectOneOf(record.start, ['cut', 'sentence', 'none'] as const, `${path}.start`);
+  expectOneOf(record.end, ['cut', 'sentence', 'none'] as const, `${path}.end`);
+  return record as unknown as MomentSnap;
+}
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2200;
+const MAX_HASHTAGS = 15;
+
+function expectText(value: unknown, path: string, maxLength: number): string {
+  const text = expectString(value, path).trim();
+  if (text.length === 0 || text.length > maxLength) {
+    throw new ValidationError(path, `1-${maxLength} characters of text`);
+  }
+  return text;
+}
+
+// Hashtags are stored without '#'; one is stripped if present
+function parseHashtag(value: unknown, path: string): string {
+  const tag = expectString(value, path).trim().replace(/^#/, '');
+  if (!/^[^\s#]{1,50}$/.test(tag)) throw new ValidationError(path, 'a hashtag without spaces');
+  return tag;
+}
+
+// Returns the trimmed copy, so callers store what was validated
+export function parseMomentCopy(value: unknown, path = 'copy'): MomentCopy {
+  const record = expectRecord(value, path);
+  const hashtags = expectArray(record.hashtags, `${path}.hashtags`, parseHashtag);
+  if (hashtags.length > MAX_HASHTAGS) throw new ValidationError(`${path}.hashtags`, `at most ${MAX_HASHTAGS} hashtags`);
+
+  return {
+    title: expectText(record.title, `${path}.title`, MAX_TITLE_LENGTH),
+    description: expectText(record.description, `${path}.description`, MAX_DESCRIPTION_LENGTH),
+    hashtags: Array.from(new Set(hashtags)),
+  };
+}
+
+// Copy edited in the UI, keyed by moment id
+export function parseMomentCopyEdits(value: unknown, path = 'copy'): Record<string, MomentCopy> {
+  const record = expectRecord(value, path);
+  const edits: Record<string, MomentCopy> = {};
+  for (const [id, copy] of Object.entries(record)) {
+    edits[id] = parseMomentCopy(copy, `${path}.${id}`);
+  }
+  return edits;
+}
+
+function expectHexColor(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+    throw new ValidationError(path, 'a #RRGGBB colour');
+  }
+  return value;
+}
+
+function expectFraction(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number < 0 || number > 1) throw new ValidationError(path, 'a number between 0 and 1');
+  return number;
+}
+
+function expectLanguageCode(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !LANGUAGE_CODE_PATTERN.test(value)) {
+    throw new ValidationError(path, 'an ISO 639-1 language code');
+  }
+  return value;
+}
+
+function parseCaptionStyleOverrides(value: unknown, path: string): Partial<CaptionStyle> {
+  const record = expectRecord(value, path);
+  return definedFields({
+    fontName: optional(record.fontName, `${path}.fontName`, (v, p) => {
+      // Font names end up in a comma-separated ASS style line
+      const fontName = expectString(v, p);
+      if (!/^[^,\n]+$/.test(fontName)) throw new ValidationError(p, 'a font name without commas');
+      return fontName;
+    }),
+    fontSize: optional(record.fontSize, `${path}.fontSize`, expectFraction),
+    outlineWidth: optional(record.outlineWidth, `${path}.outlineWidth`, expectFraction),
+    marginV: optional(record.marginV, `${path}.marginV`, expectFraction),
+    bold: optional(record.bold, `${path}.bold`, expectBoolean),
+    uppercase: optional(record.uppercase, `${path}.uppercase`, expectBoolean),
+    primaryColor: optional(record.primaryColor, `${path}.primaryColor`, expectHexColor),
+    highlightColor: optional(record.highlightColor, `${path}.highlightColor`, expectHexColor),
+    outlineColor: optional(record.outlineColor, `${path}.outlineColor`, expectHexColor),
+    backgroundColor: optional(record.backgroundColor, `${path}.backgroundColor`, expectHexColor),
+    backgroundOpacity: optional(record.backgroundOpacity, `${path}.backgroundOpacity`, expectFraction),
+    position: optional(record.position, `${path}.position`, (v, p) => expectOneOf(v, ['top', 'middle', 'bottom'] as const, p)),
+  });
+}
+
+const MAX_CAPTION_LANGUAGES = 5;
+
+export function parseClipOptions(value: unknown, path = 'config'): ClipOptions {
+  const record = expectRecord(value, path);
+  return definedFields({
+    addCaptions: optional(record.addCaptions, `${path}.addCaptions`, expectBoolean),
+    addEmojis: optional(record.addEmojis, `${path}.addEmojis`, expectBoolean),
+    addZoomPan: optional(record.addZoomPan, `${path}.addZoomPan`, expectBoolean),
+    burnCaptions: optional(record.burnCaptions, `${path}.burnCaptions`, expectBoolean),
+    format: optional(record.format, `${path}.format`, (v, p) => expectOneOf(v, ['9:16', '4:5', '16:9', '1:1'] as const, p)),
+    layout: optional(record.layout, `${path}.layout`, (v, p) => expectOneOf(v, ['crop', 'fit-blur', 'fit-color', 'stacked'] as const, p)),
+    backgroundColor: optional(record.backgroundColor, `${path}.backgroundColor`, expectHexColor),
+    captionMode: optional(record.captionMode, `${path}.captionMode`, (v, p) => expectOneOf(v, ['static', 'karaoke'] as const, p)),
+    maxWordsPerLine: optional(record.maxWordsPerLine, `${path}.maxWordsPerLine`, expectPositiveInteger),
+    captionPreset: optional(record.captionPreset, `${path}.captionPreset`, (v, p) => expectOneOf(v, CAPTION_PRESET_NAMES, p)),
+    captionStyle: optional(record.captionStyle, `${path}.captionStyle`, parseCaptionStyleOverrides),
+    speakerLabels: optional(record.speakerLabels, `${path}.speakerLabels`, (v, p) => expectOneOf(v, ['none', 'prefix', 'color'] as const, p)),
+    reframe: optional(record.reframe, `${path}.reframe`, (v, p) => expectOneOf(v, ['auto', 'track', 'blur', 'split', 'center'] as const, p)),
+    captionLanguages: optional(record.captionLanguages, `${path}.captionLanguages`, (v, p) => {
+      // Every language is another translation request and possibly another encode
+      const languages = expectArray(v, p, expectLanguageCode);
+      if (languages.length > MAX_CAPTION_LANGUAGES) {
+        throw new ValidationError(p, `at most ${MAX_CAPTION_LANGUAGES} languages`);
+      }
+      return languages;
+    }),
+  });
+}
+
+function parseClipTranslation(value: unknown, path: string): ClipTranslation {
+  const record = expectRecord(value, path);
+  expectLanguageCode(record.language, `${path}.language`);
+  expectRecord(record.captionPaths, `${path}.captionPaths`);
+  optional(record.videoPath, `${path}.videoPath`, expectString);
+  return record as unknown as ClipTranslation;
+}
+
+function parseClipResult(value: unknown, path: string): ClipResult {
+  const record = expectRecord(value, path);
+  expectString(record.id, `${path}.id`);
+  parseViralMoment(record.moment, `${path}.moment`);
+
+  if (expectBoolean(record.ready, `${path}.ready`)) {
+    expectString(record.videoPath, `${path}.videoPath`);
+    expectString(record.thumbnailPath, `${path}.thumbnailPath`);
+    expectNumber(record.duration, `${path}.duration`);
+    optional(record.captionPaths, `${path}.captionPaths`, expectRecord);
+    optional(record.translations, `${path}.translations`, (translations, p) => expectArray(translations, p, parseClipTranslation));
+    optional(record.layout, `${path}.layout`, (v, p) => expectOneOf(v, ['crop', 'fit-blur', 'fit-color', 'stacked'] as const, p));
+    optional(record.reframe, `${path}.reframe`, (v, p) => expectOneOf(v, ['track', 'blur', 'split', 'center'] as const, p));
+  } else {
+    expectString(record.error, `${path}.error`);
+  }
+  return record as unknown as ClipResult;
+}
+
+function parseJobState(record: UnknownRecord, parseResult: (value: unknown, path: string) => unknown): void {
+  expectString(record.id, 'job.id');
+  expectNumber(record.progress, 'job.progress');
+  expectString(record.currentStep, 'job.currentStep');
+  optional(record.createdAt, 'job.createdAt', expectString);
+  optional(record.updatedAt, 'job.updatedAt', expectString);
+  optional(record.queue, 'job.queue', (value, path) => {
+    const queue = expectRecord(value, path);
+    expectOneOf(queue.stage, ['download', 'transcription', 'encode'] as const, `${path}.stage`);
+    expectNumber(queue.position, `${path}.position`);
+    return queue;
+  });
+
+  const status = expectOneOf(
+    record.status,
+    ['pending', 'processing', 'completed', 'failed', 'interrupted', 'cancelled'] as const,
+    'job.status'
+  );
+
+  if (status === 'completed') {
+    parseResult(record.result, 'job.result');
+  } else if (status === 'failed') {
+    expectString(record.error, 'job.error');
+  }
+}
+
+function parseIngestInput(value: unknown, path: string): IngestInput {
+  const record = expectRecord(value, path);
+  const source = expectOneOf(record.source, ['youtube', 'upload', 'audio'] as const, `${path}.source`);
+  expectString(record.videoPath, `${path}.videoPath`);
+  if (source === 'youtube') {
+    expectString(record.url, `${path}.url`);
+    expectString(record.videoId, `${path}.videoId`);
+  }
+  optional(record.detection, `${path}.detection`, parseDetectionOptions);
+  return record as unknown as IngestInput;
+}
+
+function expectNonNegativeNumber(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number < 0) throw new ValidationError(path, 'a non-negative number');
+  return number;
+}
+
+const MAX_DETECTED_MOMENTS = 50;
+const MAX_CUSTOM_KEYWORDS = 50;
+const MAX_SNAP_TOLERANCE = 5;
+
+// Every keyword is matched against every segment, so the list is kept short
+function parseKeywordList(value: unknown, path: string): string[] {
+  const keywords = expectArray(value, path, (item, p) => {
+    const keyword = expectString(item, p).trim();
+    if (keyword.length === 0 || keyword.length > 50) throw new ValidationError(p, 'a keyword of 1-50 characters');
+    return keyword;
+  });
+  if (keywords.length > MAX_CUSTOM_KEYWORDS) {
+    throw new ValidationError(path, `at most ${MAX_CUSTOM_KEYWORDS} keywords`);
+  }
+  return keywords;
+}
+
+export function parseDetectionOptions(value: unknown, path = 'detection'): Partial<DetectionOptions> {
+  const record = expectRecord(value, path);
+  const minDuration = optional(record.minDuration, `${path}.minDuration`, expectNonNegativeNumber);
+  const maxDuration = optional(record.maxDuration, `${path}.maxDuration`, expectNonNegativeNumber);
+  if (minDuration !== undefined && maxDuration !== undefined && maxDuration < minDuration) {
+    throw new ValidationError(`${path}.maxDuration`, 'a number no smaller than minDuration');
+  }
+
+  return definedFields({
+    minDuration,
+    maxDuration,
+    maxMoments: optional(record.maxMoments, `${path}.maxMoments`, (v, p) => {
+      const maxMoments = expectPositiveInteger(v, p);
+      if (maxMoments > MAX_DETECTED_MOMENTS) {
+        throw new ValidationError(p, `at most ${MAX_DETECTED_MOMENTS}`);
+      }
+      return maxMoments;
+    }),
+    minScore: optional(record.minScore, `${path}.minScore`, expectFraction),
+    platform: optional(record.platform, `${path}.platform`, (v, p) => expectOneOf(v, ['tiktok', 'youtube-shorts', 'instagram-reels', 'linkedin'] as const, p)),
+    boostKeywords: optional(record.boostKeywords, `${path}.boostKeywords`, parseKeywordList),
+    penaltyKeywords: optional(record.penaltyKeywords, `${path}.penaltyKeywords`, parseKeywordList),
+    speakerChanges: optional(record.speakerChanges, `${path}.speakerChanges`, (v, p) => expectOneOf(v, ['prefer', 'avoid', 'neutral'] as const, p)),
+    maxOverlap: optional(record.maxOverlap, `${path}.maxOverlap`, expectFraction),
+    minGap: optional(record.minGap, `${path}.minGap`, expectNonNegativeNumber),
+    diversity: optional(record.diversity, `${path}.diversity`, expectFraction),
+    snapTolerance: optional(record.snapTolerance, `${path}.snapTolerance`, (v, p) => {
+      const tolerance = expectNonNegativeNumber(v, p);
+      if (tolerance > MAX_SNAP_TOLERANCE) {
+        throw new ValidationError(p, `at most ${MAX_SNAP_TOLERANCE} seconds`);
+      }
+      return tolerance;
+    }),
+    language: optional(record.language, `${path}.language`, expectString),
+  });
+}
+
+// Output of REFRAME_DETECTOR_COMMAND: boxes in 0..1 frame coordinates, keyed
+// by frame file name
+export function parseSubjectDetections(value: unknown, path = 'detections'): Record<string, SubjectBox[]> {
+  const record = expectRecord(value, path);
+  const detections: Record<string, SubjectBox[]> = {};
+  for (const [frame, boxes] of Object.entries(record)) {
+    detections[frame] = expectArray(boxes, `${path}.${frame}`, (item, p) => {
+      const box = expectRecord(item, p);
+      return {
+        x: expectFraction(box.x, `${p}.x`),
+        y: expectFraction(box.y, `${p}.y`),
+        width: expectFraction(box.width, `${p}.width`),
+        height: expectFraction(box.height, `${p}.height`),
+        score: optional(box.score, `${p}.score`, expectFraction),
+      };
+    });
+  }
+  return detections;
+}
+
+// Model output from the ranking prompt: exactly one ranking per clip, with
+// clip numbers 1..clipCount and scores on the prompt's 1-10 scale. Whether
+// start/end fall near the clip is left to the caller, which has the transcript.
+export function parseMomentRankings(value: unknown, clipCount: number, path = 'response'): MomentRanking[] {
+  const record = expectRecord(value, path);
+  const rankings = expectArray(record.rankings, `${path}.rankings`, (item, p) => {
+    const ranking = expectRecord(item, p);
+    const clipNumber = expectPositiveInteger(ranking.clipNumber, `${p}.clipNumber`);
+    if (clipNumber > clipCount) throw new ValidationError(`${p}.clipNumber`, `a clip number from 1 to ${clipCount}`);
+    const viralScore = expectNumber(ranking.viralScore, `${p}.viralScore`);
+    if (viralScore < 1 || viralScore > 10) throw new ValidationError(`${p}.viralScore`, 'a number from 1 to 10');
+    const reason = expectString(ranking.reason, `${p}.reason`).trim();
+    if (reason.length === 0) throw new ValidationError(`${p}.reason`, 'a non-empty string');
+    const start = expectNonNegativeNumber(ranking.start, `${p}.start`);
+    const end = expectNumber(ranking.end, `${p}.end`);
+    if (end <= start) throw new ValidationError(`${p}.end`, 'a time after start');
+    const copy = parseMomentCopy(
+      { title: ranking.title, description: ranking.description, hashtags: ranking.hashtags },
+      p
+    );
+    return { clipNumber, viralScore, reason, start, end, copy };
+  });
+
+  const ranked = new Set(rankings.map(ranking => ranking.clipNumber));
+  if (rankings.length !== clipCount || ranked.size !== clipCount) {
+    throw new ValidationError(`${path}.rankings`, `one ranking for each of the ${clipCount} clips`);
+  }
+  return rankings;
+}
+
+function parseAIUsage(value: unknown, path: string): AIUsage {
+  const record = expectRecord(value, path);
+  expectNonNegativeNumber(record.calls, `${path}.calls`);
+  expectNonNegativeNumber(record.promptTokens, `${path}.promptTokens`);
+  expectNonNegativeNumber(record.completionTokens, `${path}.completionTokens`);
+  expectNonNegativeNumber(record.costUsd, `${path}.costUsd`);
+  return record as unknown as AIUsage;
+}
+
+function parseAudioFeatures(value: unknown, path: string): AudioFeatures {
+  const record = expectRecord(value, path);
+  expectArray(record.loudness, `${path}.loudness`, expectNumber);
+  expectNumber(record.integratedLoudness, `${path}.integratedLoudness`);
+  expectArray(record.silences, `${path}.silences`, (item, p) => {
+    const silence = expectRecord(item, p);
+    expectNumber(silence.start, `${p}.start`);
+    expectNumber(silence.end, `${p}.end`);
+    return silence;
+  });
+  return record as unknown as AudioFeatures;
+}
+
+function parseIngestResult(value: unknown, path: string): IngestResult {
+  const record = expectRecord(value, path);
+  expectString(record.videoPath, `${path}.videoPath`);
+  expectArray(record.segments, `${path}.segments`, parseTranscriptSegment);
+  expectArray(record.moments, `${path}.moments`, parseViralMoment);
+  expectNumber(record.duration, `${path}.duration`);
+  expectOneOf(record.source, ['youtube', 'upload', 'audio'] as const, `${path}.source`);
+  optional(record.language, `${path}.language`, expectString);
+  optional(record.detection, `${path}.detection`, parseDetectionOptions);
+  optional(record.usage, `${path}.usage`, parseAIUsage);
+  optional(record.audio, `${path}.audio`, parseAudioFeatures);
+  optional(record.shotBoundaries, `${path}.shotBoundaries`, (v, p) => expectArray(v, p, expectNumber));
+  return record as unknown as IngestResult;
+}
+
+export function parseIngestJob(value: unknown): IngestJob {
+  const record = expectRecord(value, 'job');
+  parseIngestInput(record.input, 'job.input');
+  parseJobState(record, parseIngestResult);
+  return record as unknown as IngestJob;
+}
+
+function parseClipJobInput(value: unknown, path: string): ClipJobInput {
+  const record = expectRecord(value, path);
+  expectString(record.ingestJobId, `${path}.ingestJobId`);
+  expectArray(record.momentIds, `${path}.momentIds`, expectString);
+  parseClipOptions(record.config, `${path}.config`);
+  return record as unknown as ClipJobInput;
+}
+
+export function parseClipJob(value: unknown): ClipJob {
+  const record = expectRecord(value, 'job');
+  parseClipJobInput(record.input, 'job.input');
+  expectNumber(record.totalClips, 'job.totalClips');
+  expectNumber(record.processedClips, 'job.processedClips');
+  optional(record.clips, 'job.clips', (clips, path) => expectArray(clips, path, parseClipResult));
+  optional(record.usage, 'job.usage', parseAIUsage);
+  parseJobState(record, (result, path) => expectArray(result, path, parseClipResult));
+  return record as unknown as ClipJob;
+}
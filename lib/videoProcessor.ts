@@ -1,10 +1,19 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
-import { ViralMoment, TranscriptSegment } from '@/types';
-
-const execAsync = promisify(exec);
+import {
+  ViralMoment,
+  TranscriptSegment,
+  TranscriptWord,
+  CaptionMode,
+  CaptionStyle,
+  CaptionFileFormat,
+  ClipFormat,
+  ClipLayout,
+  SpeakerLabelMode
+} from '@/types';
+import { resolveCaptionStyle, toASSColor, toASSStyleLine, getSpeakerColor } from '@/lib/captionStyles';
+import { runFFmpeg, runFFprobe, FFmpegProgress } from '@/lib/ffmpeg';
+import { trimToMoment } from '@/lib/momentSegments';
 
 const EMOJI_MAP: { [key: string]: string[] } = {
   excitement: ['🔥', '⚡', '💥', '🚀', '✨'],
@@ -16,69 +25,408 @@ const EMOJI_MAP: { [key: string]: string[] } = {
   negative: ['😢', '😤', '💔', '👎', '⚠️'],
 };
 
-export async function extractAudioFromVideo(videoPath: string, outputPath: string): Promise<void> {
-  const command = `ffmpeg -i "${videoPath}" -vn -acodec pcm_s16le -ar 16000 -ac 1 "${outputPath}" -y`;
-  await execAsync(command);
-}
+// 16 kHz mono 16-bit PCM, what every transcription provider accepts
+const SPEECH_WAV_ARGS = ['-vn', '-acodec', 'pcm_s16le', '-ar', '16000', '-ac', '1'];
 
-export async function createClip(
+export async function extractAudioFromVideo(
   videoPath: string,
   outputPath: string,
-  startTime: number,
-  endTime: number,
-  format: '9:16' | '16:9' | '1:1' = '9:16'
+  signal?: AbortSignal,
+  onProgress?: (progress: FFmpegProgress) => void
+): Promise<void> {
+  await runFFmpeg(['-i', videoPath, ...SPEECH_WAV_ARGS, outputPath, '-y'], { signal, onProgress });
+}
+
+export async function convertAudioToWav(
+  audioPath: string,
+  outputPath: string,
+  signal?: AbortSignal,
+  onProgress?: (progress: FFmpegProgress) => void
 ): Promise<void> {
-  const duration = endTime - startTime;
-
-  let cropFilter = '';
-  if (format === '9:16') {
-    // Vertical format: 1080x1920
-    cropFilter = 'scale=1920:1080:force_original_aspect_ratio=increase,crop=1080:1920,scale=1080:1920';
-  } else if (format === '1:1') {
-    // Square format: 1080x1080
-    cropFilter = 'scale=1080:1080:force_original_aspect_ratio=increase,crop=1080:1080';
-  } else {
-    // Horizontal format: 1920x1080
-    cropFilter = 'scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2';
+  await runFFmpeg(['-i', audioPath, ...SPEECH_WAV_ARGS, outputPath, '-y'], { signal, onProgress });
+}
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+// Runs ffmpeg's silencedetect over the whole file. It logs its findings to
+// stderr as `silence_start: 12.3` / `silence_end: 14.1 | ...` pairs.
+export async function detectSilences(
+  audioPath: string,
+  noiseDb = -35,
+  minDuration = 0.5,
+  signal?: AbortSignal
+): Promise<SilenceInterval[]> {
+  const { stderr } = await runFFmpeg(
+    ['-i', audioPath, '-af', `silencedetect=noise=${noiseDb}dB:d=${minDuration}`, '-f', 'null', '-'],
+    { signal, captureStderr: true }
+  );
+
+  const silences: SilenceInterval[] = [];
+  let start: number | undefined;
+
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+    } else if (endMatch && start !== undefined) {
+      silences.push({ start, end: parseFloat(endMatch[1]) });
+      start = undefined;
+    }
   }
 
-  const command = `ffmpeg -ss ${startTime} -i "${videoPath}" -t ${duration} -vf "${cropFilter}" -c:v libx264 -preset fast -crf 23 -c:a aac -b:a 128k "${outputPath}" -y`;
+  return silences;
+}
 
-  await execAsync(command);
+export interface LoudnessMeasurement {
+  // Momentary loudness (400 ms window) in LUFS, averaged over each second
+  perSecond: number[];
+  integrated: number;
 }
 
-export async function addCaptionsToVideo(
+// Runs ffmpeg's EBU R128 meter over the whole file. It logs a line every
+// 100 ms (`t: 12.3  TARGET:-23 LUFS  M: -18.2 S: ...`) and an `I: -19.6 LUFS`
+// integrated figure in its closing summary.
+export async function measureLoudness(audioPath: string, signal?: AbortSignal): Promise<LoudnessMeasurement> {
+  const { stderr } = await runFFmpeg(
+    ['-nostats', '-i', audioPath, '-af', 'ebur128', '-f', 'null', '-'],
+    { signal, captureStderr: true }
+  );
+
+  const sums: number[] = [];
+  const counts: number[] = [];
+  let integrated = -70;
+
+  for (const line of stderr.split('\n')) {
+    const frame = line.match(/t:\s*([\d.]+)\s+TARGET:.*?M:\s*(-?[\d.]+|-inf)/);
+    if (frame) {
+      const second = Math.floor(parseFloat(frame[1]));
+      // The meter reports -120.7 or -inf for digital silence; -70 LUFS is the
+      // R128 absolute gate, so anything quieter counts as silence
+      const momentary = frame[2] === '-inf' ? -70 : Math.max(parseFloat(frame[2]), -70);
+      sums[second] = (sums[second] || 0) + momentary;
+      counts[second] = (counts[second] || 0) + 1;
+      continue;
+    }
+
+    const summary = line.match(/^\s*I:\s*(-?[\d.]+) LUFS/);
+    if (summary) integrated = parseFloat(summary[1]);
+  }
+
+  const perSecond = Array.from({ length: sums.length }, (_, i) =>
+    counts[i] ? Math.round((sums[i] / counts[i]) * 10) / 10 : -70
+  );
+  return { perSecond, integrated };
+}
+
+// Finds camera cuts with ffmpeg's scene score (0..1, how different a frame is
+// from the previous one). Frames over `threshold` pass the select filter and
+// showinfo logs each with `pts_time:12.345`. Frames are scaled down first,
+// which barely changes the score and makes decoding much cheaper.
+export async function detectSceneChanges(
   videoPath: string,
+  threshold = 0.3,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const { stderr } = await runFFmpeg(
+    ['-nostats', '-i', videoPath, '-an', '-sn', '-vf', `scale=320:-2,select='gt(scene,${threshold})',showinfo`, '-f', 'null', '-'],
+    { signal, captureStderr: true }
+  );
+
+  const cuts: number[] = [];
+  for (const line of stderr.split('\n')) {
+    if (!line.includes('Parsed_showinfo')) continue;
+    const match = line.match(/pts_time:\s*([\d.]+)/);
+    if (match) cuts.push(Math.round(parseFloat(match[1]) * 1000) / 1000);
+  }
+
+  return cuts;
+}
+
+export async function extractAudioSegment(
+  audioPath: string,
   outputPath: string,
+  startTime: number,
+  duration: number,
+  signal?: AbortSignal
+): Promise<void> {
+  await runFFmpeg(['-ss', `${startTime}`, '-i', audioPath, '-t', `${duration}`, ...SPEECH_WAV_ARGS, outputPath, '-y'], { signal });
+}
+
+export const OUTPUT_SIZES: Record<ClipFormat, { width: number; height: number }> = {
+  '9:16': { width: 1080, height: 1920 },
+  '4:5': { width: 1080, height: 1350 },
+  '1:1': { width: 1080, height: 1080 },
+  '16:9': { width: 1920, height: 1080 },
+};
+
+// '#RRGGBB' as ffmpeg's 0xRRGGBB
+function toFFmpegColor(hexColor: string): string {
+  return `0x${hexColor.slice(1)}`;
+}
+
+// Filter graph fitting `[0:v]` into the format as `[v]`:
+// - crop: fills the frame and cuts off what overflows, centred
+// - fit-blur: the whole frame over a blurred, enlarged copy of itself
+// - fit-color: the whole frame over `backgroundColor` bars
+// - stacked: the whole frame in the top half over a cropped close-up of it
+export function buildLayoutGraph(layout: ClipLayout, format: ClipFormat, backgroundColor = '#000000'): string {
+  const { width, height } = OUTPUT_SIZES[format];
+  const color = toFFmpegColor(backgroundColor);
+  const fill = (w: number, h: number) => `scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h}`;
+  const fit = (w: number, h: number) => `scale=${w}:${h}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+
+  switch (layout) {
+    case 'crop':
+      return `[0:v]${fill(width, height)},setsar=1[v]`;
+    case 'fit-color':
+      return `[0:v]${fit(width, height)},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1[v]`;
+    case 'fit-blur':
+      return `[0:v]split=2[bg][fg];` +
+        `[bg]${fill(width, height)},boxblur=20:2[blurred];` +
+        `[fg]${fit(width, height)}[fitted];` +
+        `[blurred][fitted]overlay=(W-w)/2:(H-h)/2,setsar=1[v]`;
+    case 'stacked': {
+      const top = Math.round(height / 4) * 2;
+      const bottom = height - top;
+      return `[0:v]split=2[full][detail];` +
+        `[full]${fit(width, top)},pad=${width}:${top}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1[top];` +
+        `[detail]${fill(width, bottom)},setsar=1[bottom];` +
+        `[top][bottom]vstack[v]`;
+    }
+  }
+}
+
+export interface CaptionOptions {
+  mode?: CaptionMode;
+  maxWordsPerLine?: number;
+  addEmojis?: boolean;
+  style?: CaptionStyle;
+  // Output format of the video being captioned; sizes the caption script
+  format?: ClipFormat;
+  speakerLabels?: SpeakerLabelMode;
+}
+
+const DEFAULT_MAX_WORDS_PER_LINE = 4;
+
+// Writes `${basePath}.srt`, `.vtt` and `.ass`, all timed relative to the clip.
+// The ASS file carries the full styling and is what gets burned in; SRT and
+// VTT hold plain text for platforms and translators.
+export function writeCaptionSidecars(
+  basePath: string,
   segments: TranscriptSegment[],
   moment: ViralMoment,
-  addEmojis: boolean = true
-): Promise<void> {
-  // Generate SRT subtitle file
-  const srtPath = videoPath.replace('.mp4', '.srt');
-  const srtContent = generateSRT(segments, moment, addEmojis);
-  fs.writeFileSync(srtPath, srtContent);
+  options: CaptionOptions = {}
+): Record<CaptionFileFormat, string> {
+  const paths = {
+    srt: `${basePath}.srt`,
+    vtt: `${basePath}.vtt`,
+    ass: `${basePath}.ass`,
+  };
+
+  fs.writeFileSync(paths.srt, generateSRT(segments, moment, false, options.speakerLabels));
+  fs.writeFileSync(paths.vtt, generateVTT(segments, moment, options.speakerLabels));
+  fs.writeFileSync(paths.ass, generateASS(segments, moment, options));
+
+  return paths;
+}
+
+// Builds an ASS script whose resolution matches the output video, so style
+// sizes (fractions of the output height) come out the same in every format.
+export function generateASS(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  options: CaptionOptions = {}
+): string {
+  const {
+    mode = 'static',
+    maxWordsPerLine = DEFAULT_MAX_WORDS_PER_LINE,
+    addEmojis = true,
+    style = resolveCaptionStyle(),
+    format = '9:16',
+    speakerLabels = 'none',
+  } = options;
+  const size = OUTPUT_SIZES[format];
+  const speakers = listSpeakers(segments);
+
+  const events = mode === 'karaoke'
+    ? karaokeEvents(segments, moment, style, maxWordsPerLine, addEmojis, speakerLabels, speakers)
+    : staticEvents(segments, moment, style, addEmojis, speakerLabels, speakers);
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${size.width}`,
+    `PlayResY: ${size.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    toASSStyleLine('Default', style, size),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+function dialogue(start: number, end: number, text: string): string {
+  return `Dialogue: 0,${formatASSTime(start)},${formatASSTime(end)},Default,,0,0,0,,${text}`;
+}
+
+function captionText(text: string, style: CaptionStyle): string {
+  const escaped = escapeASSText(text);
+  return style.uppercase ? escaped.toUpperCase() : escaped;
+}
+
+// Speakers in order of first appearance across the whole transcript, so a
+// speaker keeps the same colour in every clip
+function listSpeakers(segments: TranscriptSegment[]): string[] {
+  const speakers: string[] = [];
+  for (const segment of segments) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) speakers.push(segment.speaker);
+  }
+  return speakers;
+}
+
+function speakerPrefix(segment: TranscriptSegment, speakerLabels: SpeakerLabelMode): string {
+  return speakerLabels === 'prefix' && segment.speaker ? `${segment.speaker}: ` : '';
+}
+
+// ASS override that recolours text in the speaker's colour
+function speakerColorTag(segment: TranscriptSegment, speakerLabels: SpeakerLabelMode, speakers: string[]): string {
+  if (speakerLabels !== 'color' || !segment.speaker) return '';
+  const color = toASSColor(getSpeakerColor(speakers.indexOf(segment.speaker))).replace(/^&H00/, '&H');
+  return `{\\c${color}&}`;
+}
+
+function staticEvents(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  style: CaptionStyle,
+  addEmojis: boolean,
+  speakerLabels: SpeakerLabelMode,
+  speakers: string[]
+): string[] {
+  const relevantSegments = trimToMoment(segments, moment);
 
-  // Apply subtitles with styling
-  const subtitleStyle = `force_style='FontName=Arial,FontSize=24,Bold=1,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,Outline=2,Shadow=1,MarginV=40,Alignment=2'`;
+  return relevantSegments.map(segment => {
+    let text = speakerColorTag(segment, speakerLabels, speakers)
+      + captionText(speakerPrefix(segment, speakerLabels) + segment.text.trim(), style);
 
-  const command = `ffmpeg -i "${videoPath}" -vf "subtitles=${srtPath}:${subtitleStyle}" -c:v libx264 -preset fast -crf 23 -c:a copy "${outputPath}" -y`;
+    // Add emojis based on content
+    if (addEmojis) {
+      const emoji = selectEmoji(segment.text, moment.emotions);
+      if (emoji && Math.random() > 0.5) {
+        text = `${emoji} ${text}`;
+      }
+    }
 
-  await execAsync(command);
+    return dialogue(segment.start - moment.start, segment.end - moment.start, text);
+  });
+}
 
-  // Clean up SRT file
-  fs.unlinkSync(srtPath);
+// Each segment is split into lines of at most `maxWordsPerLine` words, and each
+// line is shown once per word with that word highlighted while it is spoken.
+function karaokeEvents(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  style: CaptionStyle,
+  maxWordsPerLine: number,
+  addEmojis: boolean,
+  speakerLabels: SpeakerLabelMode,
+  speakers: string[]
+): string[] {
+  const relevantSegments = trimToMoment(segments, moment);
+  const highlight = toASSColor(style.highlightColor).replace(/^&H00/, '&H');
+  const events: string[] = [];
+
+  for (const segment of relevantSegments) {
+    const words = getSegmentWords(segment);
+    const emoji = addEmojis && Math.random() > 0.5 ? selectEmoji(segment.text, moment.emotions) : '';
+    // {\r} after the highlighted word resets to the style, so the speaker
+    // colour is applied again after it
+    const colorTag = speakerColorTag(segment, speakerLabels, speakers);
+    const label = captionText(speakerPrefix(segment, speakerLabels), style);
+
+    for (let lineStart = 0; lineStart < words.length; lineStart += maxWordsPerLine) {
+      const line = words.slice(lineStart, lineStart + maxWordsPerLine);
+      const prefix = colorTag + (emoji && lineStart === 0 ? `${emoji} ` : '') + label;
+
+      line.forEach((word, index) => {
+        // Hold the highlight until the next word starts so the line never blinks
+        const end = index < line.length - 1 ? line[index + 1].start : word.end;
+        const text = line
+          .map((w, i) => i === index
+            ? `{\\c${highlight}&}${captionText(w.text, style)}{\\r}${colorTag}`
+            : captionText(w.text, style))
+          .join(' ');
+
+        events.push(dialogue(word.start - moment.start, end - moment.start, `${prefix}${text}`));
+      });
+    }
+  }
+
+  return events;
 }
 
-function generateSRT(segments: TranscriptSegment[], moment: ViralMoment, addEmojis: boolean): string {
-  const relevantSegments = segments.filter(s => s.start >= moment.start && s.end <= moment.end);
+// Uses the transcriber's word timings when it provided them; otherwise spreads
+// the segment's duration across its words in proportion to their length.
+function getSegmentWords(segment: TranscriptSegment): TranscriptWord[] {
+  if (segment.words && segment.words.length > 0) {
+    return segment.words;
+  }
+
+  const texts = segment.text.trim().split(/\s+/).filter(Boolean);
+  const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+  const duration = segment.end - segment.start;
+
+  let cursor = segment.start;
+  return texts.map(text => {
+    const wordDuration = totalLength > 0 ? (text.length / totalLength) * duration : 0;
+    const word = { text, start: cursor, end: cursor + wordDuration };
+    cursor += wordDuration;
+    return word;
+  });
+}
+
+function escapeASSText(text: string): string {
+  return text.replace(/[{}\\]/g, '');
+}
+
+function formatASSTime(seconds: number): string {
+  const clamped = Math.max(0, seconds);
+  const hours = Math.floor(clamped / 3600);
+  const minutes = Math.floor((clamped % 3600) / 60);
+  const secs = Math.floor(clamped % 60);
+  const centiseconds = Math.floor((clamped % 1) * 100);
+
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+// Speaker labels use a "Speaker 1: " prefix or a <font color> tag, which most
+// SRT players honour
+export function generateSRT(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  addEmojis: boolean,
+  speakerLabels: SpeakerLabelMode = 'none'
+): string {
+  const speakers = listSpeakers(segments);
+  const relevantSegments = trimToMoment(segments, moment);
 
   let srtContent = '';
   relevantSegments.forEach((segment, index) => {
     const startTime = formatSRTTime(segment.start - moment.start);
     const endTime = formatSRTTime(segment.end - moment.start);
 
-    let text = segment.text.trim();
+    let text = speakerPrefix(segment, speakerLabels) + segment.text.trim();
 
     // Add emojis based on content
     if (addEmojis) {
@@ -88,6 +436,10 @@ function generateSRT(segments: TranscriptSegment[], moment: ViralMoment, addEmoj
       }
     }
 
+    if (speakerLabels === 'color' && segment.speaker) {
+      text = `<font color="${getSpeakerColor(speakers.indexOf(segment.speaker))}">${text}</font>`;
+    }
+
     srtContent += `${index + 1}\n`;
     srtContent += `${startTime} --> ${endTime}\n`;
     srtContent += `${text}\n\n`;
@@ -96,6 +448,28 @@ function generateSRT(segments: TranscriptSegment[], moment: ViralMoment, addEmoj
   return srtContent;
 }
 
+// Speakers are marked with WebVTT voice tags, which players can style per voice
+export function generateVTT(
+  segments: TranscriptSegment[],
+  moment: ViralMoment,
+  speakerLabels: SpeakerLabelMode = 'none'
+): string {
+  const relevantSegments = trimToMoment(segments, moment);
+
+  let vttContent = 'WEBVTT\n\n';
+  relevantSegments.forEach((segment) => {
+    // VTT timestamps are SRT timestamps with a dot before the milliseconds
+    const startTime = formatSRTTime(segment.start - moment.start).replace(',', '.');
+    const endTime = formatSRTTime(segment.end - moment.start).replace(',', '.');
+
+    vttContent += `${startTime} --> ${endTime}\n`;
+    const voice = speakerLabels !== 'none' && segment.speaker ? `<v ${segment.speaker}>` : '';
+    vttContent += `${voice}${segment.text.trim()}\n\n`;
+  });
+
+  return vttContent;
+}
+
 function formatSRTTime(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -125,50 +499,83 @@ function selectEmoji(text: string, emotions: string[]): string {
   return '';
 }
 
-export async function addZoomPanEffect(
+export async function generateThumbnail(
   videoPath: string,
   outputPath: string,
-  intensity: number = 0.05
+  timeOffset: number = 1,
+  signal?: AbortSignal
 ): Promise<void> {
-  // Ken Burns effect (zoom + pan)
-  const zoomFilter = `zoompan=z='min(zoom+${intensity},1.5)':d=125:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=1080x1920`;
-
-  const command = `ffmpeg -i "${videoPath}" -vf "${zoomFilter}" -c:v libx264 -preset fast -crf 23 -c:a copy "${outputPath}" -y`;
-
-  try {
-    await execAsync(command);
-  } catch (error) {
-    // If zoom/pan fails, just copy the file
-    console.warn('Zoom/pan effect failed, using original video');
-    fs.copyFileSync(videoPath, outputPath);
-  }
-}
-
-export async function generateThumbnail(videoPath: string, outputPath: string, timeOffset: number = 1): Promise<void> {
-  const command = `ffmpeg -ss ${timeOffset} -i "${videoPath}" -vframes 1 -vf "scale=320:-1" "${outputPath}" -y`;
-  await execAsync(command);
+  await runFFmpeg(['-ss', `${timeOffset}`, '-i', videoPath, '-vframes', '1', '-vf', 'scale=320:-1', outputPath, '-y'], { signal });
 }
 
-export async function downloadYouTubeVideo(url: string, outputPath: string): Promise<void> {
+export async function downloadYouTubeVideo(
+  url: string,
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> {
   const ytdl = await import('ytdl-core');
   const videoInfo = await ytdl.getInfo(url);
   const format = ytdl.chooseFormat(videoInfo.formats, { quality: 'highest' });
 
+  signal?.throwIfAborted();
+
   return new Promise((resolve, reject) => {
     const stream = ytdl.downloadFromInfo(videoInfo, { format });
     const writeStream = fs.createWriteStream(outputPath);
 
+    const onAbort = () => {
+      stream.destroy();
+      writeStream.destroy();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     stream.pipe(writeStream);
 
-    writeStream.on('finish', () => resolve());
+    writeStream.on('finish', () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    });
     writeStream.on('error', (error) => reject(error));
     stream.on('error', (error) => reject(error));
   });
 }
 
-export async function getVideoDuration(videoPath: string): Promise<number> {
-  const command = `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`;
-  const { stdout } = await execAsync(command);
+export async function getVideoDimensions(
+  videoPath: string,
+  signal?: AbortSignal
+): Promise<{ width: number; height: number }> {
+  const { stdout } = await runFFprobe(
+    ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height', '-of', 'csv=p=0:s=x', videoPath],
+    { signal }
+  );
+  const [width, height] = stdout.trim().split('x').map(Number);
+  if (!width || !height) throw new Error(`No video stream in ${videoPath}`);
+  return { width, height };
+}
+
+// Writes `fps` frames a second of [startTime, startTime + duration) as small
+// JPEGs named by `outputPattern` (e.g. `dir/frame_%04d.jpg`)
+export async function extractFrames(
+  videoPath: string,
+  outputPattern: string,
+  startTime: number,
+  duration: number,
+  fps: number,
+  width: number,
+  signal?: AbortSignal
+): Promise<void> {
+  await runFFmpeg(
+    ['-ss', `${startTime}`, '-i', videoPath, '-t', `${duration}`, '-an', '-vf', `fps=${fps},scale=${width}:-2`, '-q:v', '5', outputPattern, '-y'],
+    { signal }
+  );
+}
+
+export async function getVideoDuration(videoPath: string, signal?: AbortSignal): Promise<number> {
+  const { stdout } = await runFFprobe(
+    ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', videoPath],
+    { signal }
+  );
   return parseFloat(stdout.trim());
 }
 
@@ -177,3 +584,15 @@ export function ensureDirectoryExists(dirPath: string): void {
     fs.mkdirSync(dirPath, { recursive: true });
   }
 }
+
+// Deletes every file in `dirPath` whose name starts with `prefix`. Job and clip
+// artifacts are all named after their id, so this clears partial outputs too.
+export function removeFilesWithPrefix(dirPath: string, prefix: string): void {
+  if (!fs.existsSync(dirPath)) return;
+
+  for (const file of fs.readdirSync(dirPath)) {
+    if (file.startsWith(prefix)) {
+      fs.rmSync(path.join(dirPath, file), { force: true });
+    }
+  }
+}
@@ -1,114 +1,119 @@
-import OpenAI from 'openai';
-import { TranscriptSegment, ViralMoment } from '@/types';
+import { AudioFeatures, DetectionOptions, TargetPlatform, TranscriptSegment, ViralMoment } from '@/types';
+import { countSpeakerChanges } from '@/lib/diarization';
+import { getKeywordDictionary, KeywordDictionary } from '@/lib/keywordDictionaries';
+import { generateCandidates, selectMoments, MomentCandidate } from '@/lib/momentCandidates';
+import { getRankingProvider } from '@/lib/momentRanking';
+import { UsageTracker } from '@/lib/aiClient';
+import { createDeliveryScorer, describeDelivery, DeliveryScorer } from '@/lib/audioFeatures';
+import { snapMoments } from '@/lib/boundarySnapping';
 import { v4 as uuidv4 } from 'uuid';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'sk-placeholder',
-});
-
-const VIRAL_KEYWORDS = [
-  'shocking', 'crazy', 'insane', 'unbelievable', 'secret', 'revealed', 'truth',
-  'amazing', 'incredible', 'must see', 'warning', 'exposed', 'never', 'always',
-  'everyone', 'nobody', 'mistake', 'hack', 'trick', 'best', 'worst', 'first time',
-  'story', 'happened', 'realized', 'discovered', 'finally', 'actually'
-];
-
-const EMOTION_KEYWORDS = {
-  excitement: ['excited', 'amazing', 'incredible', 'wow', 'awesome', 'fantastic'],
-  surprise: ['shocking', 'surprised', 'unexpected', 'suddenly', 'wait', 'what'],
-  urgency: ['now', 'must', 'need', 'quick', 'important', 'immediately'],
-  curiosity: ['why', 'how', 'what if', 'imagine', 'think about', 'ever wondered'],
-  controversy: ['wrong', 'lie', 'truth', 'exposed', 'hidden', 'secret'],
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  minDuration: 10,
+  maxDuration: 60,
+  maxMoments: 10,
+  minScore: 0.5,
+  boostKeywords: [],
+  penaltyKeywords: [],
+  speakerChanges: 'neutral',
+  maxOverlap: 0.3,
+  minGap: 5,
+  diversity: 0.5,
+  snapTolerance: 1,
 };
 
-export async function detectViralMoments(
-  segments: TranscriptSegment[],
-  minDuration: number = 10,
-  maxDuration: number = 60
-): Promise<ViralMoment[]> {
-  const moments: ViralMoment[] = [];
-  const fullText = segments.map(s => s.text).join(' ');
-
-  // Sliding window approach
-  for (let i = 0; i < segments.length; i++) {
-    for (let j = i + 1; j < segments.length; j++) {
-      const startTime = segments[i].start;
-      const endTime = segments[j].end;
-      const duration = endTime - startTime;
-
-      if (duration < minDuration) continue;
-      if (duration > maxDuration) break;
-
-      const windowSegments = segments.slice(i, j + 1);
-      const windowText = windowSegments.map(s => s.text).join(' ');
-
-      const score = calculateViralScore(windowText, windowSegments);
-
-      if (score > 0.5) {
-        moments.push({
-          id: uuidv4(),
-          start: startTime,
-          end: endTime,
-          score,
-          text: windowText,
-          reason: generateReason(windowText, score),
-          emotions: detectEmotions(windowText),
-          keywords: extractKeywords(windowText),
-        });
-      }
-    }
-  }
-
-  // Use AI to refine top moments
-  const topMoments = moments
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 20);
+// Clip lengths each platform handles well
+export const PLATFORM_DURATIONS: Record<TargetPlatform, Pick<DetectionOptions, 'minDuration' | 'maxDuration'>> = {
+  'tiktok': { minDuration: 15, maxDuration: 60 },
+  'youtube-shorts': { minDuration: 15, maxDuration: 60 },
+  'instagram-reels': { minDuration: 15, maxDuration: 90 },
+  'linkedin': { minDuration: 30, maxDuration: 120 },
+};
 
-  const refinedMoments = await refineWithAI(topMoments, fullText);
+// Defaults, then the platform's duration range, then explicit options. A
+// maxDuration below minDuration is raised to it.
+export function resolveDetectionOptions(options: Partial<DetectionOptions> = {}): DetectionOptions {
+  const platform = options.platform ? PLATFORM_DURATIONS[options.platform] : {};
+  const resolved = { ...DEFAULT_DETECTION_OPTIONS, ...platform, ...options };
+
+  return {
+    ...resolved,
+    maxDuration: Math.max(resolved.maxDuration, resolved.minDuration),
+    boostKeywords: resolved.boostKeywords.map(kw => kw.trim().toLowerCase()),
+    penaltyKeywords: resolved.penaltyKeywords.map(kw => kw.trim().toLowerCase()),
+  };
+}
 
-  return refinedMoments
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 10);
+// What the ingest pipeline measured on the source besides the transcript
+export interface MediaAnalysis {
+  audio?: AudioFeatures;
+  shotBoundaries?: number[];
 }
 
-function calculateViralScore(text: string, segments: TranscriptSegment[]): number {
-  let score = 0;
-  const lowerText = text.toLowerCase();
+export async function detectViralMoments(
+  segments: TranscriptSegment[],
+  options: Partial<DetectionOptions> = {},
+  media: MediaAnalysis = {},
+  usage?: UsageTracker,
+  signal?: AbortSignal
+): Promise<ViralMoment[]> {
+  const settings = resolveDetectionOptions(options);
+  const dictionary = getKeywordDictionary(settings.language);
+  const delivery = createDeliveryScorer(segments, media.audio);
 
-  // Keyword matching
-  const keywordMatches = VIRAL_KEYWORDS.filter(kw => lowerText.includes(kw)).length;
-  score += keywordMatches * 0.1;
+  const candidates = generateCandidates(segments, dictionary, settings, delivery);
 
-  // Emotion detection
-  const emotionCount = Object.values(EMOTION_KEYWORDS).reduce((count, keywords) => {
-    return count + keywords.filter(kw => lowerText.includes(kw)).length;
-  }, 0);
-  score += emotionCount * 0.08;
+  // The model gets twice as many candidates as we return, and at least 20
+  const aiCandidates = Math.max(20, settings.maxMoments * 2);
 
-  // Question detection (engagement)
-  const questionMarks = (text.match(/\?/g) || []).length;
-  score += questionMarks * 0.15;
+  // Text and metadata are only built for the few candidates that survive
+  const topMoments = selectMoments(candidates, { ...settings, limit: aiCandidates })
+    .map(candidate => toViralMoment(segments, candidate, dictionary, settings, delivery));
 
-  // Exclamation detection (energy)
-  const exclamations = (text.match(/!/g) || []).length;
-  score += exclamations * 0.1;
+  // Let the model rescore them, tighten their boundaries and write their copy
+  const refinedMoments = await getRankingProvider().rank(topMoments, segments, settings, usage, signal);
 
-  // Speaker intensity (short, punchy segments)
-  const avgSegmentLength = segments.reduce((sum, s) => sum + s.text.length, 0) / segments.length;
-  if (avgSegmentLength < 50) score += 0.2;
+  // The model rescored them, so pick again; overlap and gap already hold
+  const selected = selectMoments(refinedMoments, { ...settings, limit: settings.maxMoments });
 
-  // Sentence variety
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  if (sentences.length >= 3 && sentences.length <= 8) score += 0.15;
+  // Snapping moves boundaries by at most snapTolerance, after selection so the
+  // original ranges are what overlap and gap were judged on
+  return snapMoments(selected, segments, media.shotBoundaries ?? [], settings)
+    .sort((a, b) => b.score - a.score);
+}
 
-  return Math.min(score, 1);
+function toViralMoment(
+  segments: TranscriptSegment[],
+  candidate: MomentCandidate,
+  dictionary: KeywordDictionary,
+  settings: DetectionOptions,
+  delivery: DeliveryScorer
+): ViralMoment {
+  const windowSegments = segments.slice(candidate.startIndex, candidate.endIndex + 1);
+  const windowText = windowSegments.map(s => s.text).join(' ');
+  const deliverySignals = describeDelivery(delivery(candidate.startIndex, candidate.endIndex));
+
+  return {
+    id: uuidv4(),
+    start: candidate.start,
+    end: candidate.end,
+    score: candidate.score,
+    text: windowText,
+    reason: generateReason(windowText, candidate.score, windowSegments, dictionary, settings, deliverySignals),
+    emotions: detectEmotions(windowText, dictionary),
+    keywords: [
+      ...extractKeywords(windowText, dictionary),
+      ...settings.boostKeywords.filter(kw => windowText.toLowerCase().includes(kw)),
+    ],
+    deliverySignals,
+  };
 }
 
-function detectEmotions(text: string): string[] {
+function detectEmotions(text: string, dictionary: KeywordDictionary): string[] {
   const lowerText = text.toLowerCase();
   const emotions: string[] = [];
 
-  for (const [emotion, keywords] of Object.entries(EMOTION_KEYWORDS)) {
+  for (const [emotion, keywords] of Object.entries(dictionary.emotions)) {
     if (keywords.some(kw => lowerText.includes(kw))) {
       emotions.push(emotion);
     }
@@ -117,57 +122,28 @@ function detectEmotions(text: string): string[] {
   return emotions;
 }
 
-function extractKeywords(text: string): string[] {
+function extractKeywords(text: string, dictionary: KeywordDictionary): string[] {
   const lowerText = text.toLowerCase();
-  return VIRAL_KEYWORDS.filter(kw => lowerText.includes(kw));
+  return dictionary.viral.filter(kw => lowerText.includes(kw));
 }
 
-function generateReason(text: string, score: number): string {
+function generateReason(
+  text: string,
+  score: number,
+  segments: TranscriptSegment[],
+  dictionary: KeywordDictionary,
+  settings: DetectionOptions,
+  deliverySignals: string[]
+): string {
   const reasons: string[] = [];
 
-  if (text.includes('?')) reasons.push('Engaging question');
-  if (text.includes('!')) reasons.push('High energy');
-  if (extractKeywords(text).length > 0) reasons.push('Viral keywords');
-  if (detectEmotions(text).length > 2) reasons.push('Emotional appeal');
+  if (/[?？]/.test(text)) reasons.push('Engaging question');
+  if (/[!！]/.test(text)) reasons.push('High energy');
+  if (extractKeywords(text, dictionary).length > 0) reasons.push('Viral keywords');
+  if (settings.boostKeywords.some(kw => text.toLowerCase().includes(kw))) reasons.push('Boosted keywords');
+  if (detectEmotions(text, dictionary).length > 2) reasons.push('Emotional appeal');
+  if (countSpeakerChanges(segments) >= 2) reasons.push('Back-and-forth between speakers');
+  reasons.push(...deliverySignals);
 
   return reasons.join(', ') || 'Interesting content';
 }
-
-async function refineWithAI(moments: ViralMoment[], fullTranscript: string): Promise<ViralMoment[]> {
-  try {
-    const prompt = `You are an expert at identifying viral social media content. Analyze these potential video clips and rank them by viral potential (1-10).
-
-Full transcript context:
-${fullTranscript.slice(0, 2000)}...
-
-Potential clips:
-${moments.map((m, i) => `${i + 1}. [${m.start.toFixed(1)}s - ${m.end.toFixed(1)}s]: "${m.text}"`).join('\n')}
-
-Return a JSON array with objects containing: clipNumber (1-based index), viralScore (1-10), and reason (brief explanation).`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-    const rankings = result.clips || [];
-
-    return moments.map((moment, index) => {
-      const ranking = rankings.find((r: any) => r.clipNumber === index + 1);
-      if (ranking) {
-        return {
-          ...moment,
-          score: ranking.viralScore / 10,
-          reason: ranking.reason || moment.reason,
-        };
-      }
-      return moment;
-    });
-  } catch (error) {
-    console.error('AI refinement error:', error);
-    return moments;
-  }
-}
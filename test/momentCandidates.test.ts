@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateCandidates, selectMoments, timeIoU } from '@/lib/momentCandidates';
+import { detectViralMoments, resolveDetectionOptions } from '@/lib/viralDetector';
+import { getKeywordDictionary } from '@/lib/keywordDictionaries';
+import { TranscriptSegment } from '@/types';
+
+const LINES = [
+  'So here is the thing nobody tells you about starting out.',
+  'I honestly could not believe what happened next!',
+  'We tried it again and again, and it kept failing',
+  'Why would anyone do that on purpose?',
+  'This is the secret that changed everything for us.',
+  'and then we just kept going',
+  'It was absolutely insane, the crowd went wild!',
+  'Let me explain how it actually works.',
+];
+
+// About two hours of speech: 3 second segments with short gaps
+function syntheticTranscript(count: number): TranscriptSegment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    start: i * 3,
+    end: i * 3 + 2.8,
+    text: LINES[(i * 7 + Math.floor(i / 5)) % LINES.length],
+    speaker: i % 11 < 6 ? 'SPEAKER_00' : 'SPEAKER_01',
+  }));
+}
+
+const SEGMENTS = 2400;
+
+test('scores a two-hour transcript with a bounded number of windows', () => {
+  const segments = syntheticTranscript(SEGMENTS);
+  const settings = resolveDetectionOptions();
+
+  const candidates = generateCandidates(segments, getKeywordDictionary(settings.language), settings);
+  const selected = selectMoments(candidates, { ...settings, limit: settings.maxMoments });
+
+  assert.ok(candidates.length > 0);
+  // Each start can only pair with the ends inside one maxDuration window
+  const segmentsPerWindow = Math.ceil(settings.maxDuration / 3) + 1;
+  assert.ok(candidates.length <= SEGMENTS * segmentsPerWindow);
+  assert.equal(selected.length, settings.maxMoments);
+});
+
+test('candidate work grows linearly with transcript length', () => {
+  const settings = resolveDetectionOptions();
+  const dictionary = getKeywordDictionary(settings.language);
+
+  const short = generateCandidates(syntheticTranscript(SEGMENTS / 2), dictionary, { ...settings, minScore: -Infinity });
+  const long = generateCandidates(syntheticTranscript(SEGMENTS), dictionary, { ...settings, minScore: -Infinity });
+
+  assert.ok(long.length / short.length < 2.2, `${short.length} -> ${long.length} candidates`);
+});
+
+test('selected moments do not overlap beyond maxOverlap', () => {
+  const segments = syntheticTranscript(SEGMENTS);
+  const settings = resolveDetectionOptions();
+  const candidates = generateCandidates(segments, getKeywordDictionary(settings.language), settings);
+  const selected = selectMoments(candidates, { ...settings, limit: settings.maxMoments });
+
+  for (const a of selected) {
+    for (const b of selected) {
+      if (a !== b) assert.ok(timeIoU(a, b) <= settings.maxOverlap);
+    }
+  }
+});
+
+test('selects from more candidates than a call can take as arguments', () => {
+  const candidates = Array.from({ length: 500_000 }, (_, i) => ({ start: i * 10, end: i * 10 + 5, score: i % 97 }));
+
+  const selected = selectMoments(candidates, { maxOverlap: 0.5, minGap: 0, diversity: 0.5, limit: 5 });
+
+  assert.equal(selected.length, 5);
+});
+
+test('detects moments end to end on a two-hour transcript', async () => {
+  process.env.RANKING_PROVIDER = 'heuristic';
+  const segments = syntheticTranscript(SEGMENTS);
+
+  const moments = await detectViralMoments(segments);
+
+  assert.equal(moments.length, 10);
+});
@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import OpenAI from 'openai';
+import { createLLMRankingProvider, RANKING_PROMPT_VERSION } from '@/lib/momentRanking';
+import { createUsageTracker, ModelPrice } from '@/lib/aiClient';
+import { TranscriptSegment, ViralMoment } from '@/types';
+
+const segments: TranscriptSegment[] = [
+  { start: 0, end: 10, text: 'This is the part everyone asks about.' },
+  { start: 10, end: 20, text: 'And here is why it matters.' },
+];
+
+const moment: ViralMoment = {
+  id: 'm1',
+  start: 0,
+  end: 20,
+  score: 0.6,
+  text: segments.map(s => s.text).join(' '),
+  reason: 'Strong hook',
+  emotions: [],
+  keywords: [],
+};
+
+const settings = { minDuration: 10, maxDuration: 60 };
+
+const ranking = {
+  clipNumber: 1,
+  viralScore: 8,
+  reason: 'Opens on a question',
+  start: 0,
+  end: 20,
+  title: 'Why it matters',
+  description: 'The part everyone asks about',
+  hashtags: ['podcast', 'advice', 'startups'],
+};
+
+const VALID_REPLY = JSON.stringify({ rankings: [ranking] });
+const USAGE = { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 };
+
+type Messages = OpenAI.Chat.ChatCompletionMessageParam[];
+
+// Answers each call with the next scripted reply and keeps the messages sent
+function scriptedClient(replies: string[]) {
+  const requests: Messages[] = [];
+  const client = {
+    chat: {
+      completions: {
+        create: async (body: { messages: Messages }) => {
+          requests.push([...body.messages]);
+          const content = replies[Math.min(requests.length, replies.length) - 1];
+          return { choices: [{ message: { content } }], usage: USAGE };
+        },
+      },
+    },
+  } as unknown as OpenAI;
+  return { client, requests };
+}
+
+function provider(client: OpenAI, price?: ModelPrice) {
+  return createLLMRankingProvider({
+    name: 'test',
+    client,
+    model: 'test-model',
+    maxRetries: 2,
+    responseFormat: 'json_object',
+    price,
+  });
+}
+
+test('a valid reply rescores the moment with the model', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const { client, requests } = scriptedClient([VALID_REPLY]);
+
+  const [ranked] = await provider(client).rank([moment], segments, settings);
+
+  assert.equal(requests.length, 1);
+  assert.equal(ranked.score, 0.8);
+  assert.equal(ranked.heuristicScore, 0.6);
+  assert.equal(ranked.scoreSource, 'model');
+  assert.equal(ranked.promptVersion, RANKING_PROMPT_VERSION);
+  assert.deepEqual(ranked.copy, { title: ranking.title, description: ranking.description, hashtags: ranking.hashtags });
+});
+
+test('malformed JSON is sent back for correction', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const { client, requests } = scriptedClient(['{"rankings": [', VALID_REPLY]);
+
+  const [ranked] = await provider(client).rank([moment], segments, settings);
+
+  assert.equal(requests.length, 2);
+  assert.equal(ranked.scoreSource, 'model');
+  const [, reply, correction] = requests[1];
+  assert.deepEqual(reply, { role: 'assistant', content: '{"rankings": [' });
+  assert.equal(correction.role, 'user');
+  assert.match(correction.content as string, /That response was invalid/);
+});
+
+test('a reply that fails the schema is sent back with the failing field', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const invalid = JSON.stringify({ rankings: [{ ...ranking, viralScore: 42 }] });
+  const { client, requests } = scriptedClient([invalid, VALID_REPLY]);
+
+  const [ranked] = await provider(client).rank([moment], segments, settings);
+
+  assert.equal(requests.length, 2);
+  assert.equal(ranked.score, 0.8);
+  assert.match(requests[1][2].content as string, /response\.rankings\[0\]\.viralScore/);
+});
+
+test('heuristic scores are kept once the retries run out', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  t.mock.method(console, 'error', () => {});
+  const { client, requests } = scriptedClient(['not json']);
+
+  const [ranked] = await provider(client).rank([moment], segments, settings);
+
+  assert.equal(requests.length, 3);
+  assert.equal(ranked.score, 0.6);
+  assert.equal(ranked.scoreSource, 'heuristic');
+  assert.equal(ranked.copy, undefined);
+});
+
+test('every attempt is counted in the usage, priced when the model has a price', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const priced = createUsageTracker();
+  const unpriced = createUsageTracker({ calls: 1, promptTokens: 10, completionTokens: 5, costUsd: 0.5 });
+
+  await provider(scriptedClient(['not json', VALID_REPLY]).client, { input: 1, output: 4 })
+    .rank([moment], segments, settings, priced);
+  await provider(scriptedClient([VALID_REPLY]).client).rank([moment], segments, settings, unpriced);
+
+  assert.deepEqual(priced.summary(), { calls: 2, promptTokens: 2000, completionTokens: 400, costUsd: 0.0036 });
+  assert.deepEqual(unpriced.summary(), { calls: 2, promptTokens: 1010, completionTokens: 205, costUsd: 0.5 });
+});
+
+test('an aborted ranking rejects without retrying or falling back', async () => {
+  let calls = 0;
+  // Hangs until the request's signal aborts, like a slow model
+  const client = {
+    chat: {
+      completions: {
+        create: (_body: unknown, options?: { signal?: AbortSignal }) => {
+          calls++;
+          return new Promise((_, reject) => {
+            options?.signal?.addEventListener('abort', () => reject(options.signal!.reason), { once: true });
+          });
+        },
+      },
+    },
+  } as unknown as OpenAI;
+
+  const controller = new AbortController();
+  const ranking = provider(client).rank([moment], segments, settings, undefined, controller.signal);
+  controller.abort();
+
+  await assert.rejects(ranking);
+  assert.equal(calls, 1);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isInMoment, trimToMoment } from '@/lib/momentSegments';
+import { generateSRT, generateVTT } from '@/lib/videoProcessor';
+import { TranscriptSegment, ViralMoment } from '@/types';
+
+const segments: TranscriptSegment[] = [
+  { start: 0, end: 4, text: 'Mostly before the cut.' },
+  { start: 4, end: 10, text: 'Straddles the opening cut.' },
+  { start: 10, end: 20, text: 'Wholly inside.' },
+  { start: 20, end: 26, text: 'Straddles the closing cut.' },
+  { start: 26, end: 30, text: 'Mostly after the cut.' },
+];
+
+// Boundaries snapped onto camera cuts in the middle of segments
+const moment: ViralMoment = {
+  id: 'm1',
+  start: 6,
+  end: 24,
+  score: 0.7,
+  text: '',
+  reason: 'Snapped to cuts',
+  emotions: [],
+  keywords: [],
+};
+
+test('segments cut by a boundary belong to the side holding most of them', () => {
+  assert.deepEqual(
+    segments.filter(s => isInMoment(s, moment)).map(s => s.text),
+    ['Straddles the opening cut.', 'Wholly inside.', 'Straddles the closing cut.']
+  );
+});
+
+test('trimToMoment clamps segment and word times to the moment', () => {
+  const words = [{ text: 'Straddles', start: 4, end: 7 }, { text: 'cut.', start: 7, end: 10 }];
+  const [first] = trimToMoment([{ ...segments[1], words }], moment);
+
+  assert.equal(first.start, 6);
+  assert.equal(first.end, 10);
+  assert.deepEqual(first.words, [{ text: 'Straddles', start: 6, end: 7 }, { text: 'cut.', start: 7, end: 10 }]);
+});
+
+test('caption files keep the text at snapped boundaries', () => {
+  assert.equal(
+    generateSRT(segments, moment, false),
+    '1\n00:00:00,000 --> 00:00:04,000\nStraddles the opening cut.\n\n' +
+    '2\n00:00:04,000 --> 00:00:14,000\nWholly inside.\n\n' +
+    '3\n00:00:14,000 --> 00:00:18,000\nStraddles the closing cut.\n\n'
+  );
+  assert.match(generateVTT(segments, moment), /00:00:14\.000 --> 00:00:18\.000\nStraddles the closing cut\./);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCropPath, chooseFraming, SubjectObservation } from '@/lib/reframe';
+
+const SOURCE = { width: 1920, height: 1080 };
+const FPS = 2;
+// A 9:16 crop of a 16:9 source, as a share of its width
+const CROP_FRACTION = (1080 * 1080) / 1920 / 1920;
+
+function observe(positions: (number | number[])[]): SubjectObservation[] {
+  return positions.map((position, index) => ({
+    time: index / FPS,
+    subjects: (Array.isArray(position) ? position : [position]).map(x => ({ x, weight: 1 })),
+  }));
+}
+
+test('buildCropPath holds still through jitter inside the dead zone', () => {
+  const cropPath = buildCropPath(observe([0.7, 0.71, 0.69, 0.7, 0.72, 0.7, 0.69, 0.71]), CROP_FRACTION, FPS);
+
+  assert.ok(Math.abs(cropPath.initial - 0.7) < 0.02);
+  assert.deepEqual(cropPath.moves, []);
+});
+
+test('buildCropPath pans to a moved subject at a bounded speed', () => {
+  const positions = [...Array(10).fill(0.3), ...Array(20).fill(0.7)];
+  const cropPath = buildCropPath(observe(positions), CROP_FRACTION, FPS);
+
+  const travelled = cropPath.moves.reduce((sum, move) => sum + move.shift, 0);
+  assert.ok(Math.abs(cropPath.initial + travelled - 0.7) < 0.05);
+  for (const move of cropPath.moves) {
+    assert.ok(Math.abs(move.shift) / move.duration <= 0.25 + 1e-9);
+  }
+});
+
+test('chooseFraming letterboxes when auto finds no subject', () => {
+  const plan = chooseFraming(observe([[], [], [], []]), 'auto', '9:16', SOURCE, FPS, 0);
+
+  assert.equal(plan.mode, 'blur');
+  assert.match(plan.filterGraph!, /boxblur/);
+});
+
+test('chooseFraming splits two speakers too far apart for one crop', () => {
+  const plan = chooseFraming(observe(Array(6).fill([0.2, 0.8])), 'auto', '9:16', SOURCE, FPS, 2);
+
+  assert.equal(plan.mode, 'split');
+  assert.match(plan.filterGraph!, /\[top\]\[bottom\]vstack\[v\]$/);
+});
+
+test('chooseFraming tracks a single subject with an even-width crop', () => {
+  const plan = chooseFraming(observe(Array(6).fill(0.75)), 'track', '9:16', SOURCE, FPS, 1);
+
+  assert.equal(plan.mode, 'track');
+  assert.match(plan.filterGraph!, /^\[0:v\]crop=w=606:h=1080:x='[^']+':y=0,scale=1080:1920\[v\]$/);
+});
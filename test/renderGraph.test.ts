@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ClipLayout } from '@/types';
+import { buildRenderArgs, buildRenderGraph, renderClipVideo, RenderSpec } from '@/lib/renderGraph';
+import { buildLayoutGraph, getVideoDimensions, getVideoDuration } from '@/lib/videoProcessor';
+import { runFFmpeg } from '@/lib/ffmpeg';
+
+const LAYOUTS: ClipLayout[] = ['crop', 'fit-blur', 'fit-color', 'stacked'];
+const SUBTITLES = '/tmp/clip captions.ass';
+const ZOOM = "[v]fps=30,zoompan=z='min(zoom+0.0016666666666666668,1.5)':d=1:" +
+  "x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=1080x1920:fps=30[zoomed]";
+
+// The rendered frames against a plain scale of the same span of the source
+const MIN_SSIM = 0.95;
+const MIN_PSNR = 30;
+
+const hasFFmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+function spec(overrides: Partial<RenderSpec> = {}): RenderSpec {
+  return {
+    videoPath: '/uploads/source video.mp4',
+    outputPath: '/clips/clip_1.mp4',
+    start: 12.5,
+    end: 42.5,
+    format: '9:16',
+    frameGraph: buildLayoutGraph('crop', '9:16'),
+    ...overrides,
+  };
+}
+
+// Every label but the input and `[out]` must be produced once and consumed once
+function assertLabelsPaired(graph: string): void {
+  const counts = new Map<string, number>();
+  for (const [, label] of Array.from(graph.matchAll(/\[([^\]]+)\]/g))) {
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  for (const [label, count] of Array.from(counts)) {
+    assert.equal(count, label === '0:v' || label === 'out' ? 1 : 2, `label [${label}] in ${graph}`);
+  }
+}
+
+for (const layout of LAYOUTS) {
+  for (const zoom of [false, true]) {
+    for (const subtitles of [false, true]) {
+      const name = `${layout}${zoom ? ' + zoom' : ''}${subtitles ? ' + subtitles' : ''}`;
+
+      test(`buildRenderGraph chains ${name} into one graph`, () => {
+        const frameGraph = buildLayoutGraph(layout, '9:16');
+        const graph = buildRenderGraph(spec({
+          frameGraph,
+          zoomPan: zoom ? 0.05 : undefined,
+          subtitlePath: subtitles ? SUBTITLES : undefined,
+        }));
+
+        const stages = [frameGraph];
+        let label = 'v';
+        if (zoom) {
+          stages.push(ZOOM);
+          label = 'zoomed';
+        }
+        if (subtitles) {
+          stages.push(`[${label}]subtitles=filename=/tmp/clip captions.ass[captioned]`);
+          label = 'captioned';
+        }
+        stages.push(`[${label}]format=yuv420p[out]`);
+
+        assert.equal(graph, stages.join(';'));
+        assertLabelsPaired(graph);
+      });
+
+      test(`buildRenderArgs encodes ${name} once from the source`, () => {
+        const render = spec({
+          frameGraph: buildLayoutGraph(layout, '9:16'),
+          zoomPan: zoom ? 0.05 : undefined,
+          subtitlePath: subtitles ? SUBTITLES : undefined,
+        });
+
+        assert.deepEqual(buildRenderArgs(render), [
+          '-ss', '12.5',
+          '-i', '/uploads/source video.mp4',
+          '-t', '30',
+          '-filter_complex', buildRenderGraph(render),
+          '-map', '[out]',
+          '-map', '0:a?',
+          '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
+          '-c:a', 'aac', '-b:a', '128k',
+          '-movflags', '+faststart',
+          '/clips/clip_1.mp4',
+          '-y',
+        ]);
+      });
+    }
+  }
+}
+
+test('buildRenderGraph escapes subtitle paths for the filter parser', () => {
+  const graph = buildRenderGraph(spec({ subtitlePath: "/tmp/it's [a]:clip,1;2.ass" }));
+
+  assert.ok(graph.includes("[v]subtitles=filename=/tmp/it\\\\\\'s \\[a\\]\\\\:clip\\,1\\;2.ass[captioned]"));
+});
+
+test('renders a fixture within the quality threshold', { skip: !hasFFmpeg && 'ffmpeg is not installed' }, async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-graph-'));
+  const fixture = path.join(dir, 'fixture.mp4');
+  const output = path.join(dir, 'rendered.mp4');
+
+  try {
+    await runFFmpeg([
+      '-f', 'lavfi', '-i', 'testsrc2=size=640x360:rate=30:duration=3',
+      '-f', 'lavfi', '-i', 'sine=frequency=440:duration=3',
+      '-c:v', 'libx264', '-crf', '18', '-pix_fmt', 'yuv420p', '-c:a', 'aac',
+      fixture, '-y',
+    ]);
+
+    // A 16:9 source fits a 16:9 output exactly, so the only change is the scale
+    await renderClipVideo({
+      videoPath: fixture,
+      outputPath: output,
+      start: 1,
+      end: 2,
+      format: '16:9',
+      frameGraph: buildLayoutGraph('fit-color', '16:9'),
+    });
+
+    assert.deepEqual(await getVideoDimensions(output), { width: 1920, height: 1080 });
+    assert.ok(Math.abs(await getVideoDuration(output) - 1) < 0.1);
+
+    const compare = async (metric: string) => {
+      const { stderr } = await runFFmpeg([
+        '-i', output,
+        '-ss', '1', '-t', '1', '-i', fixture,
+        '-filter_complex', `[1:v]scale=1920:1080,setsar=1[reference];[0:v]setsar=1[rendered];[rendered][reference]${metric}`,
+        '-f', 'null', '-',
+      ], { captureStderr: true });
+      return stderr;
+    };
+
+    const ssim = parseFloat((await compare('ssim')).match(/All:([\d.]+)/)![1]);
+    const psnr = (await compare('psnr')).match(/average:([\d.]+|inf)/)![1];
+
+    assert.ok(ssim >= MIN_SSIM, `SSIM ${ssim} is below ${MIN_SSIM}`);
+    assert.ok(psnr === 'inf' || parseFloat(psnr) >= MIN_PSNR, `PSNR ${psnr} is below ${MIN_PSNR}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('renders a fixture with zoom and subtitles', { skip: !hasFFmpeg && 'ffmpeg is not installed' }, async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-graph-'));
+  const fixture = path.join(dir, 'fixture.mp4');
+  const subtitles = path.join(dir, "it's [a] clip.srt");
+  const output = path.join(dir, 'rendered.mp4');
+
+  try {
+    await runFFmpeg([
+      '-f', 'lavfi', '-i', 'testsrc2=size=640x360:rate=30:duration=2',
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p',
+      fixture, '-y',
+    ]);
+    fs.writeFileSync(subtitles, '1\n00:00:00,000 --> 00:00:01,000\nHello there\n');
+
+    await renderClipVideo({
+      videoPath: fixture,
+      outputPath: output,
+      start: 0,
+      end: 1,
+      format: '9:16',
+      frameGraph: buildLayoutGraph('crop', '9:16'),
+      zoomPan: 0.05,
+      subtitlePath: subtitles,
+    });
+
+    assert.deepEqual(await getVideoDimensions(output), { width: 1080, height: 1920 });
+    assert.ok(Math.abs(await getVideoDuration(output) - 1) < 0.1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
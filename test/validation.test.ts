@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseClipOptions, parseDetectionOptions, ValidationError } from '@/lib/validation';
+
+test('parseDetectionOptions keeps only known fields and trimmed keywords', () => {
+  const detection = parseDetectionOptions({
+    maxMoments: 5,
+    boostKeywords: ['  launch ', 'secret'],
+    unknown: 'dropped',
+  });
+
+  assert.deepEqual(detection, { maxMoments: 5, boostKeywords: ['launch', 'secret'] });
+});
+
+test('parseDetectionOptions still rejects invalid fields', () => {
+  assert.throws(() => parseDetectionOptions({ maxMoments: 500 }), ValidationError);
+  assert.throws(() => parseDetectionOptions({ minDuration: 30, maxDuration: 10 }), ValidationError);
+});
+
+test('parseClipOptions keeps only known fields, including caption style overrides', () => {
+  const config = parseClipOptions({
+    format: '4:5',
+    layout: 'fit-blur',
+    captionStyle: { bold: true, injected: '{\\an8}' },
+    extra: { nested: true },
+  });
+
+  assert.deepEqual(config, { format: '4:5', layout: 'fit-blur', captionStyle: { bold: true } });
+});
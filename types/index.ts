@@ -1,8 +1,25 @@
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
 export interface TranscriptSegment {
   text: string;
   start: number;
   end: number;
   confidence?: number;
+  // Word-level timings, when the transcription source provides them
+  words?: TranscriptWord[];
+  // Set by the diarization stage, e.g. "Speaker 1"
+  speaker?: string;
+}
+
+// A transcript plus the spoken language, as an ISO 639-1 code ("en", "es"),
+// when the source reports one
+export interface Transcript {
+  segments: TranscriptSegment[];
+  language?: string;
 }
 
 export interface VideoMetadata {
@@ -12,6 +29,8 @@ export interface VideoMetadata {
   source: 'youtube' | 'upload' | 'audio';
   url?: string;
   filePath?: string;
+  // Detected spoken language, ISO 639-1
+  language?: string;
 }
 
 export interface ViralMoment {
@@ -23,6 +42,106 @@ export interface ViralMoment {
   text: string;
   emotions: string[];
   keywords: string[];
+  // Where `score` came from. Model-scored moments keep the heuristic score
+  // alongside and name the prompt version that produced the ranking.
+  scoreSource?: ScoreSource;
+  heuristicScore?: number;
+  promptVersion?: string;
+  // The range detection found, kept when the model tightened start/end
+  heuristicRange?: { start: number; end: number };
+  copy?: MomentCopy;
+  // How the moment is delivered: loudness, laughter, pauses, pace
+  deliverySignals?: string[];
+  // Set when start or end moved onto a camera cut or sentence end
+  snap?: MomentSnap;
+}
+
+export type SnapTarget = 'cut' | 'sentence' | 'none';
+
+export interface MomentSnap {
+  // The range before snapping
+  original: { start: number; end: number };
+  start: SnapTarget;
+  end: SnapTarget;
+}
+
+export type ScoreSource = 'heuristic' | 'model';
+
+// Publishing copy for a clip. Suggested by the model, editable before rendering.
+export interface MomentCopy {
+  title: string;
+  description: string;
+  // Without the leading '#'
+  hashtags: string[];
+}
+
+export type ClipFormat = '9:16' | '4:5' | '16:9' | '1:1';
+
+// How the source fills a format of a different shape: 'crop' fills the frame,
+// 'fit-blur' and 'fit-color' keep the whole frame over a blurred copy or a
+// solid colour, 'stacked' puts the whole frame above a cropped close-up
+export type ClipLayout = 'crop' | 'fit-blur' | 'fit-color' | 'stacked';
+
+// 'static' burns one cue per transcript segment; 'karaoke' shows short lines
+// with the word being spoken highlighted
+export type CaptionMode = 'static' | 'karaoke';
+
+export type CaptionFileFormat = 'srt' | 'vtt' | 'ass';
+
+// How captions show who is talking when segments carry a speaker
+export type SpeakerLabelMode = 'none' | 'prefix' | 'color';
+
+// Whether moment detection favours windows where the speaker changes
+export type SpeakerChangePreference = 'prefer' | 'avoid' | 'neutral';
+
+// Platforms whose clip length limits can seed the duration range
+export type TargetPlatform = 'tiktok' | 'youtube-shorts' | 'instagram-reels' | 'linkedin';
+
+export interface DetectionOptions {
+  // Seconds; when a platform is set its range is the default
+  minDuration: number;
+  maxDuration: number;
+  maxMoments: number;
+  // Heuristic score (0..1) a window must beat to be considered
+  minScore: number;
+  platform?: TargetPlatform;
+  // Extra phrases that raise or lower a window's score, matched like the
+  // built-in keywords
+  boostKeywords: string[];
+  penaltyKeywords: string[];
+  speakerChanges: SpeakerChangePreference;
+  // Moments overlapping a better one by more than this IoU (intersection over
+  // union of their time ranges, 0..1) are dropped
+  maxOverlap: number;
+  // Seconds required between the end of one moment and the start of another
+  minGap: number;
+  // 0..1; how strongly selection favours parts of the video no moment covers yet
+  diversity: number;
+  // Seconds a boundary may move to land on a camera cut or sentence end; 0 disables
+  snapTolerance: number;
+  // Picks the keyword dictionary; English when unset or unsupported
+  language?: string;
+}
+
+export type CaptionPresetName = 'classic' | 'bold' | 'boxed' | 'minimal' | 'neon';
+
+export interface CaptionStyle {
+  fontName: string;
+  // Sizes and margins are fractions of the output height, so a style looks the
+  // same at 1080x1920 as it does at 1920x1080
+  fontSize: number;
+  outlineWidth: number;
+  marginV: number;
+  bold: boolean;
+  uppercase: boolean;
+  // Colours are #RRGGBB
+  primaryColor: string;
+  highlightColor: string;
+  outlineColor: string;
+  // When set, text sits on an opaque box instead of being outlined
+  backgroundColor?: string;
+  backgroundOpacity?: number;
+  position: 'top' | 'middle' | 'bottom';
 }
 
 export interface ClipConfig {
@@ -32,23 +151,147 @@ export interface ClipConfig {
   addCaptions: boolean;
   addEmojis: boolean;
   addZoomPan: boolean;
-  format: '9:16' | '16:9' | '1:1';
+  format: ClipFormat;
+  captionMode: CaptionMode;
+  maxWordsPerLine: number;
+  captionPreset: CaptionPresetName;
+  // Overrides applied on top of the preset
+  captionStyle: Partial<CaptionStyle>;
+  // When false, captions are only delivered as sidecar files
+  burnCaptions: boolean;
+  speakerLabels: SpeakerLabelMode;
+  // Extra caption tracks translated into these ISO 639-1 languages
+  captionLanguages: string[];
+  layout: ClipLayout;
+  // Bar colour for the 'fit-color' and 'stacked' layouts, '#RRGGBB'
+  backgroundColor: string;
+  // How the 'crop' layout follows the subject in a wide source
+  reframe: ReframeMode;
 }
 
+// 'track' follows the detected subject with a moving crop, 'blur' letterboxes
+// the full frame over a blurred copy, 'split' stacks two speakers, 'center'
+// is a fixed centre crop. 'auto' picks one of them from what the face detector
+// finds, and is a centre crop without one.
+export type ReframeMode = 'auto' | 'track' | 'blur' | 'split' | 'center';
+
+// Render options sent with /api/process; the moment fields come from the ingest job
+export type ClipOptions = Partial<Omit<ClipConfig, 'momentId' | 'start' | 'end'>>;
+
 export interface ProcessedClip {
   id: string;
   videoPath: string;
   thumbnailPath: string;
   duration: number;
   moment: ViralMoment;
-  ready: boolean;
+  ready: true;
+  // Sidecar caption files, present when captions were requested
+  captionPaths?: Record<CaptionFileFormat, string>;
+  translations?: ClipTranslation[];
+  layout?: ClipLayout;
+  // The framing used, after 'auto' and any fallback were resolved
+  reframe?: Exclude<ReframeMode, 'auto'>;
+}
+
+// Captions for one target language. `videoPath` is set when the translated
+// captions were burned into their own copy of the clip.
+export interface ClipTranslation {
+  language: string;
+  captionPaths: Record<CaptionFileFormat, string>;
+  videoPath?: string;
 }
 
-export interface JobStatus {
+export interface FailedClip {
+  id: string;
+  moment: ViralMoment;
+  ready: false;
+  error: string;
+}
+
+export type ClipResult = ProcessedClip | FailedClip;
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'interrupted' | 'cancelled';
+
+export type QueueStage = 'download' | 'transcription' | 'encode';
+
+export interface QueuePosition {
+  stage: QueueStage;
+  position: number;
+}
+
+interface JobBase {
   id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
   progress: number;
   currentStep: string;
-  result?: ProcessedClip[];
-  error?: string;
+  // Set while the job is waiting for a worker slot
+  queue?: QueuePosition;
+  // ISO timestamps maintained by the job store
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Each state carries only the payload that is valid for it, so a completed job
+// always has a result and a failed job always has an error.
+type JobStates<Result> =
+  | { status: 'pending' | 'processing' | 'interrupted' | 'cancelled' }
+  | { status: 'completed'; result: Result }
+  | { status: 'failed'; error: string };
+
+export type IngestInput = (
+  | { source: 'youtube'; url: string; videoId: string; videoPath: string }
+  | { source: 'upload' | 'audio'; videoPath: string }
+) & {
+  // Detection options sent with the request; unset fields use the defaults
+  detection?: Partial<DetectionOptions>;
+};
+
+export interface IngestResult {
+  videoPath: string;
+  segments: TranscriptSegment[];
+  moments: ViralMoment[];
+  duration: number;
+  source: VideoMetadata['source'];
+  language?: VideoMetadata['language'];
+  // Settings the moments were detected with
+  detection?: DetectionOptions;
+  // Model calls made ranking moments, including re-detections
+  usage?: AIUsage;
+  // Loudness and silences of the source audio, kept for re-detection
+  audio?: AudioFeatures;
+  // Seconds at which the camera cuts, from scene detection
+  shotBoundaries?: number[];
+}
+
+export interface AudioFeatures {
+  // Momentary loudness in LUFS for each second of the source
+  loudness: number[];
+  integratedLoudness: number;
+  silences: { start: number; end: number }[];
 }
+
+// Chat model usage for one job. Cost is estimated from list prices and leaves
+// out models without a known price.
+export interface AIUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export type IngestJob = JobBase & { input: IngestInput } & JobStates<IngestResult>;
+
+export interface ClipJobInput {
+  ingestJobId: string;
+  momentIds: string[];
+  config: ClipOptions;
+}
+
+export type ClipJob = JobBase & {
+  input: ClipJobInput;
+  totalClips: number;
+  processedClips: number;
+  // Clips finished so far, so late subscribers can catch up before the batch completes
+  clips?: ClipResult[];
+  // Model calls made translating captions
+  usage?: AIUsage;
+} & JobStates<ClipResult[]>;